@@ -22,18 +22,16 @@ import { Feather } from '@expo/vector-icons';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { openAppForLabel } from '@/modules/label-actions';
+import { dtwDistance, type DtwOptions, type DtwTemplates } from '@/modules/gesture-dtw';
+import type { SensorSample } from '@/modules/gesture-ml';
+import { DEFAULT_SAMPLE_RATE_HZ } from '@/modules/gesture-resample';
 
 /** Types */
-type Sample = {
-  t: number;
-  ax: number;
-  ay: number;
-  az: number;
-  gx: number;
-  gy: number;
-  gz: number;
-};
-type Templates = { [label: string]: Sample[][] };
+type Sample = SensorSample;
+type Templates = DtwTemplates;
+
+// Listener timestamps jitter around the update interval; compare on a fixed grid.
+const DTW_OPTIONS: DtwOptions = { resample: { rateHz: DEFAULT_SAMPLE_RATE_HZ } };
 
 type ButtonVariant = 'primary' | 'secondary' | 'ghost' | 'danger';
 type FeatherIcon = ComponentProps<typeof Feather>['name'];
@@ -349,65 +347,6 @@ export default function GestureScreen() {
     }
   }
 
-  /** Normalization & DTW */
-  function normalizeSequence(seq: Sample[]) {
-    if (!seq.length) return seq;
-    const axes = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'] as const;
-    const stats: Record<string, { mean: number; std: number }> = {};
-    axes.forEach((k) => {
-      const vals = seq.map((s) => (s as any)[k]);
-      const mean = vals.reduce((a, b) => a + b, 0) / vals.length || 0;
-      let variance =
-        vals.map((v) => (v - mean) ** 2).reduce((a, b) => a + b, 0) /
-        Math.max(1, vals.length);
-      let std = Math.sqrt(variance);
-      if (std === 0) std = 1;
-      stats[k] = { mean, std };
-    });
-    return seq.map((s) => {
-      const out: any = {};
-      axes.forEach((k) => {
-        out[k] = ((s as any)[k] - stats[k].mean) / stats[k].std;
-      });
-      return out as Sample;
-    });
-  }
-
-  function sampleDistance(a: Sample, b: Sample) {
-    const keys: (keyof Sample)[] = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'];
-    let sum = 0;
-    for (let k of keys) {
-      const da = (a as any)[k] || 0;
-      const db = (b as any)[k] || 0;
-      const d = da - db;
-      sum += d * d;
-    }
-    return Math.sqrt(sum);
-  }
-
-  function dtwDistance(seqA: Sample[], seqB: Sample[]) {
-    const n = seqA.length,
-      m = seqB.length;
-    if (n === 0 || m === 0) return Number.POSITIVE_INFINITY;
-    const A = normalizeSequence(seqA),
-      B = normalizeSequence(seqB);
-    const dtw: number[][] = Array.from({ length: n + 1 }, () =>
-      new Array(m + 1).fill(Infinity)
-    );
-    dtw[0][0] = 0;
-    for (let i = 1; i <= n; i++)
-      for (let j = 1; j <= m; j++) {
-        const cost = sampleDistance(A[i - 1], B[j - 1]);
-        const minPrev = Math.min(
-          dtw[i - 1][j],
-          dtw[i][j - 1],
-          dtw[i - 1][j - 1]
-        );
-        dtw[i][j] = cost + minPrev;
-      }
-    return dtw[n][m] / (n + m);
-  }
-
   /** Stats per label */
   function computeLabelStats(currentTemplates: Templates) {
     const stats: Record<
@@ -424,7 +363,7 @@ export default function GestureScreen() {
       const pairs: number[] = [];
       for (let i = 0; i < n; i++) {
         for (let j = i + 1; j < n; j++) {
-          pairs.push(dtwDistance(exs[i], exs[j]));
+          pairs.push(dtwDistance(exs[i], exs[j], DTW_OPTIONS));
         }
       }
       const meanIntra = pairs.reduce((a, b) => a + b, 0) / pairs.length;
@@ -451,7 +390,7 @@ export default function GestureScreen() {
     let bestScore = Infinity;
     for (const label of labels) {
       const exemplars = templates[label];
-      const dists = exemplars.map((ex) => dtwDistance(seq, ex));
+      const dists = exemplars.map((ex) => dtwDistance(seq, ex, DTW_OPTIONS));
       const avg = dists.reduce((a, b) => a + b, 0) / dists.length;
       const min = Math.min(...dists);
       details[label] = { exemplarDistances: dists, avg, min };
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useRef, useState, type ComponentProps } from 'react';
 import {
   Alert,
+  Platform,
   SafeAreaView,
   ScrollView,
   StyleSheet,
@@ -23,15 +24,42 @@ import { Feather } from '@expo/vector-icons';
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { openAppForLabel } from '@/modules/label-actions';
 import {
+  BACKGROUND_LABEL,
+  HANDS,
+  captureGroup,
+  isBackgroundLabel,
+  type CaptureMetadata,
+  type EvaluationGrouping,
   type GestureDataset,
-  type GestureModel,
+  type Hand,
   type SensorSample,
-  extractFeatureVector,
-  movingAverage,
-  predictFromModel,
-  trainSoftmaxModel,
-  evaluateSoftmaxOnDataset,
 } from '@/modules/gesture-ml';
+import { measuredRateHz } from '@/modules/gesture-resample';
+import {
+  DEFAULT_PIPELINE_ID,
+  FEATURE_PIPELINES,
+  getFeaturePipeline,
+  rebuildDatasetFeatures,
+  resolvePipelineId,
+  runFeaturePipeline,
+} from '@/modules/gesture-features';
+import {
+  type ClassifierKind,
+  type ClassifierTrainOptions,
+  type GestureClassifier,
+  CLASSIFIER_KINDS,
+  CLASSIFIER_LABELS,
+  classifyWithRejection,
+  deserializeClassifier,
+  evaluateClassifierOnDataset,
+  serializeClassifier,
+  trainClassifier,
+  updateClassifier,
+} from '@/modules/gesture-classifiers';
+import type { RejectionReason } from '@/modules/gesture-rejection';
+import { analyzeFeatures } from '@/modules/gesture-importance';
+import { IMBALANCE_WARNING_RATIO, labelImbalance } from '@/modules/gesture-balance';
+import { auditDataset, type AuditFinding } from '@/modules/gesture-audit';
 
 type FeatherIcon = ComponentProps<typeof Feather>['name'];
 
@@ -66,6 +94,38 @@ const palette = {
 
 const initialDataset: GestureDataset = { featureNames: [], entries: [] };
 
+// Synthetic copies are generated per training run and never stored in the dataset.
+const AUGMENT_COPIES = 3;
+
+// Gradient-trained recognizers weight their loss per label; the rest see oversampled labels.
+const CLASS_WEIGHTED_KINDS: ClassifierKind[] = ['softmax', 'mlp', 'cnn'];
+
+function balanceOptionsFor(kind: ClassifierKind): ClassifierTrainOptions {
+  return CLASS_WEIGHTED_KINDS.includes(kind)
+    ? { classWeighting: 'balanced' }
+    : { balance: { strategy: 'oversample' } };
+}
+
+const REJECTION_REASONS: Record<RejectionReason, string> = {
+  background: 'classified as background motion',
+  confidence: 'low confidence',
+  margin: 'too close to the runner-up',
+  distance: 'far from the training samples',
+};
+
+// iOS only exposes the model name through expo-device, which the app does not ship.
+function deviceModel() {
+  if (Platform.OS === 'android') {
+    return `${Platform.constants.Manufacturer} ${Platform.constants.Model}`;
+  }
+  if (Platform.OS === 'ios') return Platform.isPad ? 'iPad' : 'iPhone';
+  return undefined;
+}
+
+const newSessionId = () => `session-${Date.now()}`;
+
+const displayLabel = (label: string) => (isBackgroundLabel(label) ? 'Background' : label);
+
 function getRuntimeDatasetPath() {
   const docDirRuntime = (FileSystem as any).documentDirectory;
   const cacheDirRuntime = (FileSystem as any).cacheDirectory;
@@ -83,9 +143,23 @@ export default function MLGestureScreen() {
   const lastGyro = useRef({ x: 0, y: 0, z: 0 });
   const bufferRef = useRef<SensorSample[]>([]);
   const [labelName, setLabelName] = useState('');
+  // Background mode saves everyday motion under the reserved null class.
+  const [backgroundMode, setBackgroundMode] = useState(false);
+  // Stored with every recording so evaluation can hold out whole users or sittings.
+  const [profileName, setProfileName] = useState('');
+  const [hand, setHand] = useState<Hand>('right');
+  const [sessionId, setSessionId] = useState(newSessionId);
+  const [evaluationSplit, setEvaluationSplit] = useState<'random' | EvaluationGrouping>('random');
+  // Last predicted recording, kept until the user confirms or corrects it.
+  const [feedback, setFeedback] = useState<{ samples: SensorSample[]; predicted: string } | null>(null);
   const [dataset, setDataset] = useState<GestureDataset>(initialDataset);
-  const [dtwTemplates, setDtwTemplates] = useState<Record<string, SensorSample[][]>>({});
-  const [model, setModel] = useState<GestureModel | null>(null);
+  const [pipelineId, setPipelineId] = useState(DEFAULT_PIPELINE_ID);
+  const [classifierKind, setClassifierKind] = useState<ClassifierKind>('ensemble');
+  const [augmentTraining, setAugmentTraining] = useState(false);
+  const [balanceTraining, setBalanceTraining] = useState(false);
+  const [model, setModel] = useState<GestureClassifier | null>(null);
+  // Suspicious recordings from the last audit; null until one has run.
+  const [auditFindings, setAuditFindings] = useState<AuditFinding[] | null>(null);
   const [training, setTraining] = useState(false);
   const [status, setStatus] = useState('idle');
   const colorScheme = useColorScheme() ?? 'light';
@@ -105,6 +179,10 @@ export default function MLGestureScreen() {
         const parsed = JSON.parse(text) as GestureDataset;
         if (parsed && Array.isArray(parsed.entries)) {
           setDataset(parsed);
+          // Pick up where the last recordings left off; the session itself starts fresh.
+          const lastCapture = parsed.entries[parsed.entries.length - 1]?.capture;
+          if (lastCapture?.userId) setProfileName(lastCapture.userId);
+          if (lastCapture?.hand) setHand(lastCapture.hand);
         }
       } catch {
         // ignore hydration errors and start fresh
@@ -137,6 +215,21 @@ export default function MLGestureScreen() {
     })();
   }, [dataset]);
 
+  // Follow the pipeline of whatever dataset was loaded or rebuilt.
+  useEffect(() => {
+    if (dataset.pipelineId) setPipelineId(dataset.pipelineId);
+  }, [dataset.pipelineId]);
+
+  // Pipeline the stored feature vectors were built with; null for unknown layouts.
+  const datasetPipelineId = useMemo(() => {
+    if (!dataset.entries.length) return pipelineId;
+    try {
+      return resolvePipelineId(dataset.featureNames, dataset.pipelineId);
+    } catch {
+      return null;
+    }
+  }, [dataset.entries.length, dataset.featureNames, dataset.pipelineId, pipelineId]);
+
   const labelSummary = useMemo(() => {
     const stats: Record<
       string,
@@ -158,6 +251,24 @@ export default function MLGestureScreen() {
     return stats;
   }, [dataset.entries]);
 
+  // Background motion is meant to outnumber gestures, so only gesture labels are compared.
+  const imbalance = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.entries(labelSummary).forEach(([label, info]) => {
+      if (!isBackgroundLabel(label)) counts[label] = info.count;
+    });
+    const found = labelImbalance(counts);
+    return found && found.ratio >= IMBALANCE_WARNING_RATIO ? found : null;
+  }, [labelSummary]);
+
+  const captureCounts = useMemo(() => {
+    const real = dataset.entries.filter((entry) => !entry.augmentedFrom);
+    return {
+      sessions: new Set(real.map((entry) => captureGroup(entry, 'session'))).size,
+      users: new Set(real.map((entry) => captureGroup(entry, 'user'))).size,
+    };
+  }, [dataset.entries]);
+
   const hasPendingGesture = bufferRef.current.length > 0;
   const datasetSize = dataset.entries.length;
 
@@ -201,76 +312,64 @@ export default function MLGestureScreen() {
     setCount(0);
   }
 
-  // DTW helpers reuse the same axes as the recorder screen.
-  function normalizeSequenceDtw(seq: SensorSample[]) {
-    if (!seq.length) return seq;
-    const axes = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'] as const;
-    const stats: Record<string, { mean: number; std: number }> = {};
-    axes.forEach((k) => {
-      const vals = seq.map((s) => (s as any)[k] as number);
-      const mean = vals.reduce((a, b) => a + b, 0) / (vals.length || 1);
-      const variance =
-        vals.map((v) => (v - mean) ** 2).reduce((a, b) => a + b, 0) /
-        Math.max(1, vals.length);
-      let std = Math.sqrt(variance);
-      if (std === 0) std = 1;
-      stats[k] = { mean, std };
-    });
-    return seq.map((s) => {
-      const out: any = {};
-      axes.forEach((k) => {
-        out[k] = ((s as any)[k] - stats[k].mean) / stats[k].std;
-      });
-      return out as SensorSample;
-    });
-  }
-
-  function sampleDistanceDtw(a: SensorSample, b: SensorSample) {
-    const keys: (keyof SensorSample)[] = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'];
-    let sum = 0;
-    keys.forEach((k) => {
-      const da = (a as any)[k] || 0;
-      const db = (b as any)[k] || 0;
-      const d = da - db;
-      sum += d * d;
-    });
-    return Math.sqrt(sum);
-  }
-
-  function dtwDistance(seqA: SensorSample[], seqB: SensorSample[]) {
-    const n = seqA.length;
-    const m = seqB.length;
-    if (n === 0 || m === 0) return Number.POSITIVE_INFINITY;
-    const A = normalizeSequenceDtw(seqA);
-    const B = normalizeSequenceDtw(seqB);
-    const dtw: number[][] = Array.from({ length: n + 1 }, () =>
-      new Array(m + 1).fill(Infinity)
-    );
-    dtw[0][0] = 0;
-    for (let i = 1; i <= n; i++) {
-      for (let j = 1; j <= m; j++) {
-        const cost = sampleDistanceDtw(A[i - 1], B[j - 1]);
-        const minPrev = Math.min(dtw[i - 1][j], dtw[i][j - 1], dtw[i - 1][j - 1]);
-        dtw[i][j] = cost + minPrev;
-      }
-    }
-    return dtw[n][m] / (n + m);
-  }
-
   function ensureFeatureLayout(incomingNames: string[]) {
     if (!dataset.featureNames.length) return incomingNames;
     const matches =
       dataset.featureNames.length === incomingNames.length &&
       dataset.featureNames.every((name, idx) => name === incomingNames[idx]);
     if (!matches) {
-      throw new Error('Feature layout mismatch. Clear dataset before mixing formats.');
+      throw new Error(
+        'Feature layout mismatch. Rebuild features (or clear the dataset) before mixing formats.'
+      );
     }
     return dataset.featureNames;
   }
 
+  function captureMetadata(raw: SensorSample[]): CaptureMetadata {
+    const userId = profileName.trim();
+    return {
+      ...(userId ? { userId } : {}),
+      deviceModel: deviceModel(),
+      platform: Platform.OS,
+      osVersion: String(Platform.Version),
+      sampleRateHz: measuredRateHz(raw),
+      hand,
+      sessionId,
+    };
+  }
+
+  /** Featurizes a raw recording with the dataset's pipeline and appends it. */
+  function appendToDataset(raw: SensorSample[], label: string): GestureDataset {
+    const pipeline = getFeaturePipeline(datasetPipelineId ?? pipelineId);
+    const { features } = runFeaturePipeline(pipeline, raw);
+    ensureFeatureLayout(features.featureNames);
+    const next: GestureDataset = {
+      featureNames: dataset.featureNames.length ? dataset.featureNames : features.featureNames,
+      entries: [
+        ...dataset.entries,
+        {
+          id: `sample-${Date.now()}`,
+          label,
+          values: features.values,
+          durationMs: features.durationMs,
+          sampleCount: features.sampleCount,
+          samples: raw,
+          capture: captureMetadata(raw),
+        },
+      ],
+      pipelineId: pipeline.id,
+    };
+    setDataset(next);
+    return next;
+  }
+
   function saveGestureExample() {
     stopSensors();
-    const trimmed = labelName.trim();
+    const trimmed = backgroundMode ? BACKGROUND_LABEL : labelName.trim();
+    if (isBackgroundLabel(labelName.trim()) && !backgroundMode) {
+      Alert.alert('Reserved label', 'Use background mode to record non-gesture motion.');
+      return;
+    }
     if (!trimmed) {
       Alert.alert('Label required', 'Type a label before saving.');
       return;
@@ -280,27 +379,7 @@ export default function MLGestureScreen() {
       return;
     }
     try {
-      const filtered = movingAverage(bufferRef.current, 3);
-      const features = extractFeatureVector(filtered);
-      ensureFeatureLayout(features.featureNames);
-      const entry = {
-        id: `sample-${Date.now()}`,
-        label: trimmed,
-        values: features.values,
-        durationMs: features.durationMs,
-        sampleCount: features.sampleCount,
-      };
-      setDataset((prev) => ({
-        featureNames: prev.featureNames.length ? prev.featureNames : features.featureNames,
-        entries: [...prev.entries, entry],
-      }));
-      // Also track full filtered sequences per label for DTW baseline.
-      setDtwTemplates((prev) => {
-        const next = { ...prev };
-        if (!next[trimmed]) next[trimmed] = [];
-        next[trimmed].push(filtered);
-        return next;
-      });
+      appendToDataset(bufferRef.current.slice(), trimmed);
       resetBuffer();
       Alert.alert('Saved', `Added training example for "${trimmed}".`);
     } catch (err: any) {
@@ -317,12 +396,66 @@ export default function MLGestureScreen() {
         onPress: () => {
           setDataset(initialDataset);
           setModel(null);
-          setDtwTemplates({});
         },
       },
     ]);
   }
 
+  function rebuildFeatures() {
+    if (!dataset.entries.length) {
+      Alert.alert('Dataset empty', 'Collect samples before rebuilding features.');
+      return;
+    }
+    try {
+      const { dataset: next, rebuilt, dropped } = rebuildDatasetFeatures(dataset, pipelineId);
+      setDataset(next);
+      const modelFeatures = model?.summary().featureNames;
+      if (modelFeatures && modelFeatures.join('|') !== next.featureNames.join('|')) {
+        setModel(null);
+      }
+      const lines = [`Re-extracted ${rebuilt} samples with the ${pipelineId} pipeline.`];
+      if (dropped.length) {
+        lines.push(`Dropped ${dropped.length} samples without raw sensor data.`);
+      }
+      Alert.alert('Features rebuilt', lines.join('\n'));
+    } catch (err: any) {
+      Alert.alert('Rebuild failed', err?.message ?? String(err));
+    }
+  }
+
+  function runAudit() {
+    if (dataset.entries.length < 3) {
+      Alert.alert('Dataset too small', 'Collect a few samples per label before auditing.');
+      return;
+    }
+    setTraining(true);
+    setTimeout(() => {
+      try {
+        // k-NN retrains in milliseconds, so leave-one-out stays fast on device.
+        const report = auditDataset(dataset, { classifier: 'knn' });
+        setAuditFindings(report.findings);
+        if (!report.findings.length) {
+          Alert.alert('Audit clean', `No suspicious recordings among ${report.checked}.`);
+        }
+      } catch (err: any) {
+        Alert.alert('Audit failed', err?.message ?? String(err));
+      } finally {
+        setTraining(false);
+      }
+    }, 16);
+  }
+
+  /** Deletes or relabels an audited recording; the model keeps its old training until retrained. */
+  function resolveFinding(id: string, relabelTo?: string) {
+    setDataset({
+      ...dataset,
+      entries: relabelTo
+        ? dataset.entries.map((entry) => (entry.id === id ? { ...entry, label: relabelTo } : entry))
+        : dataset.entries.filter((entry) => entry.id !== id),
+    });
+    setAuditFindings((prev) => prev?.filter((finding) => finding.id !== id) ?? null);
+  }
+
   function clearModel() {
     setModel(null);
   }
@@ -333,27 +466,111 @@ export default function MLGestureScreen() {
       return;
     }
     try {
-      const { result } = evaluateSoftmaxOnDataset(dataset, {
+      const result = evaluateClassifierOnDataset(dataset, classifierKind, {
         testFraction: 0.2,
+        // Cross-validate once there are enough samples for every fold to be useful.
+        folds: dataset.entries.length >= 10 ? 5 : 1,
+        leaveOneOut: evaluationSplit === 'random' ? undefined : evaluationSplit,
         epochs: 250,
         learningRate: 0.08,
+        augment: augmentTraining ? { copies: AUGMENT_COPIES } : undefined,
+        ...(balanceTraining ? balanceOptionsFor(classifierKind) : {}),
       });
       const overallPct = (result.overallAccuracy * 100).toFixed(1);
       const lines = [
         `Overall accuracy: ${overallPct}%`,
-        `Test samples: ${result.totalSamples}`,
+        `Balanced accuracy: ${(result.balancedAccuracy * 100).toFixed(1)}% (mean per-label recall)`,
+        `Gesture test samples: ${result.totalSamples}${result.background ? ` (+ ${result.background.samples} background)` : ''}`,
+        ...(result.background
+          ? [`False activations: ${(result.background.falseActivationRate * 100).toFixed(1)}% of ${result.background.samples} background samples · ${result.background.missedGestures} gestures missed`]
+          : []),
+        ...(result.crossValidation
+          ? [`Folds: ${(result.crossValidation.meanAccuracy * 100).toFixed(1)}% ± ${(result.crossValidation.stdAccuracy * 100).toFixed(1)}% (${result.crossValidation.heldOut ? `leave-one-${evaluationSplit}-out` : `${result.crossValidation.folds}-fold`})`]
+          : []),
+        ...(result.crossValidation?.heldOut ?? []).map(
+          (group, idx) => `  ${group}: ${(result.crossValidation!.foldAccuracies[idx] * 100).toFixed(1)}%`
+        ),
+        `Macro F1: ${(result.macro.f1 * 100).toFixed(1)}% · Micro F1: ${(result.micro.f1 * 100).toFixed(1)}%`,
+        `Calibration error (ECE): ${(result.calibration.expectedCalibrationError * 100).toFixed(1)}%`,
+        `Seed: ${result.seed}`,
         '',
-        'Per-label:',
+        'Per-label (P / R / F1):',
         ...Object.entries(result.perLabel).map(([label, stats]) =>
-          `${label}: ${(stats.accuracy * 100).toFixed(1)}% (${stats.correct}/${stats.total})`
+          `${displayLabel(label)}: ${(stats.precision * 100).toFixed(0)} / ${(stats.recall * 100).toFixed(0)} / ${(stats.f1 * 100).toFixed(0)}% (${stats.correct}/${stats.total})`
         ),
       ];
-      Alert.alert('Offline accuracy', lines.join('\n'));
+      const confusions = result.labels
+        .flatMap((actual, row) =>
+          result.labels.map((predicted, col) => ({
+            actual,
+            predicted,
+            count: row === col ? 0 : result.confusionMatrix[row][col],
+          }))
+        )
+        .filter((cell) => cell.count > 0)
+        .sort((a, b) => b.count - a.count);
+      if (confusions.length) {
+        lines.push('', 'Most confused (actual → predicted):');
+        confusions.slice(0, 5).forEach((cell) => {
+          lines.push(`${displayLabel(cell.actual)} → ${displayLabel(cell.predicted)}: ${cell.count}`);
+        });
+      }
+      Alert.alert(`Offline accuracy (${CLASSIFIER_LABELS[classifierKind]})`, lines.join('\n'));
     } catch (err: any) {
       Alert.alert('Evaluation failed', err?.message ?? String(err));
     }
   }
 
+  function showFeatureReport() {
+    if (!model) {
+      Alert.alert('No model', 'Train or import a model first.');
+      return;
+    }
+    setTraining(true);
+    setTimeout(() => {
+      try {
+        const report = analyzeFeatures(model, dataset, {
+          epochs: 250,
+          learningRate: 0.08,
+          // Ablation retrains once per block and fold, so keep it light on device.
+          ablation: dataset.entries.length >= 6,
+          folds: 3,
+          topPerLabel: 3,
+        });
+        const lines = [`Accuracy on dataset: ${(report.baselineAccuracy * 100).toFixed(1)}%`];
+        if (report.permutation.length) {
+          lines.push('', 'Most important (accuracy lost when shuffled):');
+          report.permutation.slice(0, 5).forEach(({ feature, importance }) => {
+            lines.push(`${feature}: ${(importance * 100).toFixed(1)}%`);
+          });
+        }
+        if (report.ablation) {
+          lines.push('', `Without block (all: ${(report.ablation.baselineAccuracy * 100).toFixed(1)}%):`);
+          report.ablation.blocks.forEach(({ block, accuracy, delta }) => {
+            lines.push(`${block}: ${(accuracy * 100).toFixed(1)}% (${delta >= 0 ? '+' : ''}${(delta * 100).toFixed(1)})`);
+          });
+        }
+        if (report.topFeaturesByLabel) {
+          lines.push('', 'Top weights per label:');
+          Object.entries(report.topFeaturesByLabel).forEach(([label, features]) => {
+            lines.push(`${displayLabel(label)}: ${features.map((f) => f.feature).join(', ')}`);
+          });
+        }
+        lines.push(
+          '',
+          report.lowVariance.length
+            ? `Near-constant features: ${report.lowVariance.map((f) => f.feature).join(', ')}`
+            : 'No near-constant features.'
+        );
+        Alert.alert(`Feature report (${CLASSIFIER_LABELS[model.kind]})`, lines.join('\n'));
+      } catch (err: any) {
+        Alert.alert('Feature report failed', err?.message ?? String(err));
+      } finally {
+        setTraining(false);
+      }
+    }, 16);
+  }
+
   function trainModelOnDevice() {
     if (!dataset.entries.length) {
       Alert.alert('Dataset empty', 'Collect data before training.');
@@ -362,9 +579,15 @@ export default function MLGestureScreen() {
     setTraining(true);
     setTimeout(() => {
       try {
-        const trained = trainSoftmaxModel(dataset, { epochs: 250, learningRate: 0.08 });
+        const trained = trainClassifier(classifierKind, dataset, {
+          epochs: 250,
+          learningRate: 0.08,
+          augment: augmentTraining ? { copies: AUGMENT_COPIES } : undefined,
+          ...(balanceTraining ? balanceOptionsFor(classifierKind) : {}),
+          rejection: {},
+        });
         setModel(trained);
-        Alert.alert('Model trained', `Labels: ${trained.labels.join(', ')}`);
+        Alert.alert('Model trained', `Labels: ${trained.summary().labels.join(', ')}`);
       } catch (err: any) {
         Alert.alert('Training failed', err?.message ?? String(err));
       } finally {
@@ -385,80 +608,78 @@ export default function MLGestureScreen() {
     }
     try {
       const t0 = Date.now();
-      const filtered = movingAverage(bufferRef.current, 3);
-      const features = extractFeatureVector(filtered);
-      if (features.featureNames.length !== model.featureNames.length) {
-        throw new Error('Model feature layout does not match current extraction.');
-      }
-      const prediction = predictFromModel(model, features.values);
+      const raw = bufferRef.current.slice();
+      const modelSummary = model.summary();
+      // Rebuild exactly the pipeline the model was trained with. Sequence
+      // models report no feature layout, only (at most) a pipeline id.
+      const pipeline = getFeaturePipeline(
+        modelSummary.featureNames
+          ? resolvePipelineId(modelSummary.featureNames, modelSummary.pipelineId)
+          : (modelSummary.pipelineId ?? DEFAULT_PIPELINE_ID)
+      );
+      const { features } = runFeaturePipeline(pipeline, raw);
+      const prediction = classifyWithRejection(model, { values: features.values, samples: raw });
       const latencyMs = Date.now() - t0;
       resetBuffer();
       const top = prediction.distribution[0];
       const second = prediction.distribution[1];
       const summary = [
-        `Prediction: ${top.label}`,
+        prediction.accepted
+          ? `Prediction (${CLASSIFIER_LABELS[model.kind]}): ${top.label}`
+          : prediction.reason === 'background'
+            ? 'No gesture: this looks like everyday motion'
+            : `Unknown gesture (closest: ${top.label}; ${REJECTION_REASONS[prediction.reason ?? 'confidence']})`,
         `Confidence: ${(top.confidence * 100).toFixed(1)}%`,
         `Latency: ${latencyMs} ms`,
-        second ? `Runner-up: ${second.label} (${(second.confidence * 100).toFixed(1)}%)` : '',
+        second ? `Runner-up: ${displayLabel(second.label)} (${(second.confidence * 100).toFixed(1)}%)` : '',
       ]
         .filter(Boolean)
         .join('\n');
-      Alert.alert('Prediction', summary);
-      if (top.confidence >= 0.55) {
-        openAppForLabel(top.label);
+      setFeedback({ samples: raw, predicted: top.label });
+      if (prediction.accepted) {
+        // Launching counts as confirmation; "Wrong" leaves the sample for correction.
+        Alert.alert('Prediction', summary, [
+          { text: 'Wrong', style: 'cancel' },
+          {
+            text: `Open ${top.label}`,
+            onPress: () => {
+              openAppForLabel(top.label);
+              // The update can be a warm-started retrain, so it runs after the launch.
+              setTimeout(() => learnFromFeedback(raw, top.label, false), 16);
+            },
+          },
+        ]);
+      } else {
+        Alert.alert('Not recognized', `${summary}\n\nPick the right label below to teach the model.`);
       }
     } catch (err: any) {
       Alert.alert('Prediction failed', err?.message ?? String(err));
     }
   }
 
-  function predictGestureBaseline() {
-    stopSensors();
-    if (!bufferRef.current.length) {
-      Alert.alert('No gesture', 'Record a gesture to classify.');
-      return;
-    }
-    if (!Object.keys(dtwTemplates).length) {
-      Alert.alert('No DTW templates', 'Save at least one example per label before running the baseline.');
-      return;
-    }
+  /** Saves a confirmed or corrected recording and nudges the model toward it. */
+  function learnFromFeedback(raw: SensorSample[], label: string, announce = true) {
+    if (!model) return;
     try {
-      const t0 = Date.now();
-      const filtered = movingAverage(bufferRef.current, 3);
-      // DTW baseline: compare this sequence against all stored sequences per label.
-      const labels = Object.keys(dtwTemplates);
-      const avgDistances: Record<string, number> = {};
-      labels.forEach((label) => {
-        const exemplars = dtwTemplates[label];
-        if (!exemplars || !exemplars.length) return;
-        const dists = exemplars.map((seq) => dtwDistance(filtered, seq));
-        const avg = dists.reduce((a, b) => a + b, 0) / dists.length;
-        avgDistances[label] = avg;
-      });
-      const entries = Object.entries(avgDistances);
-      if (!entries.length) {
-        throw new Error('No valid DTW exemplars to compare against.');
+      const next = appendToDataset(raw, label);
+      // The new recording is vouched for, so the unknown-gesture limits loosen to accept it.
+      setModel(
+        updateClassifier(
+          model,
+          next,
+          {
+            learningRate: 0.08,
+            ...(balanceTraining ? balanceOptionsFor(model.kind) : {}),
+          },
+          next.entries.slice(-1)
+        )
+      );
+      setFeedback(null);
+      if (announce) {
+        Alert.alert('Model updated', `Learned this sample as "${displayLabel(label)}".`);
       }
-      const weights = entries.map(([label, avg]) => ({ label, weight: Math.exp(-avg) }));
-      const total = weights.reduce((sum, w) => sum + w.weight, 0) || 1;
-      const distribution = weights
-        .map((w) => ({ label: w.label, confidence: w.weight / total }))
-        .sort((a, b) => b.confidence - a.confidence);
-      const top = distribution[0];
-      const second = distribution[1];
-      const latencyMs = Date.now() - t0;
-      resetBuffer();
-      const summary = [
-        `Baseline (DTW) prediction: ${top.label}`,
-        `Confidence (DTW-based): ${(top.confidence * 100).toFixed(1)}%`,
-        `Latency: ${latencyMs} ms`,
-        second ? `Runner-up: ${second.label} (${(second.confidence * 100).toFixed(1)}%)` : '',
-      ]
-        .filter(Boolean)
-        .join('\n');
-      Alert.alert('Baseline prediction', summary);
     } catch (err: any) {
-      Alert.alert('Baseline failed', err?.message ?? String(err));
+      Alert.alert('Update failed', err?.message ?? String(err));
     }
   }
 
@@ -516,7 +737,7 @@ export default function MLGestureScreen() {
       return;
     }
     try {
-      const json = JSON.stringify(model, null, 2);
+      const json = JSON.stringify(serializeClassifier(model), null, 2);
       const docDirRuntime = (FileSystem as any).documentDirectory;
       const cacheDirRuntime = (FileSystem as any).cacheDirectory;
       const docDir = docDirRuntime ?? cacheDirRuntime ?? null;
@@ -547,12 +768,10 @@ export default function MLGestureScreen() {
       }
       //@ts-ignore
       const txt = await legacyReadAsStringAsync(res.uri);
-      const parsed = JSON.parse(txt) as GestureModel;
-      if (!parsed.featureNames || !parsed.labels || !parsed.weights) {
-        throw new Error('Invalid model payload');
-      }
-      setModel(parsed);
-      Alert.alert('Model ready', `Loaded labels: ${parsed.labels.join(', ')}`);
+      const loaded = deserializeClassifier(JSON.parse(txt));
+      setModel(loaded);
+      setClassifierKind(loaded.kind);
+      Alert.alert('Model ready', `Loaded labels: ${loaded.summary().labels.join(', ')}`);
     } catch (err: any) {
       Alert.alert('Import failed', err?.message ?? String(err));
     }
@@ -598,9 +817,21 @@ export default function MLGestureScreen() {
     );
   };
 
-  const modelStatus = model
-    ? `Trained on ${model.trainingSamples} samples · ${model.labels.length} labels`
+  const modelSummary = model?.summary() ?? null;
+  const modelStatus = modelSummary
+    ? `${CLASSIFIER_LABELS[modelSummary.kind]} · ${modelSummary.trainingSamples} samples · ${modelSummary.labels.length} labels`
     : 'No model yet';
+  // Corrections can name a known label, background, or a new label typed above.
+  const typedLabel = labelName.trim();
+  const feedbackLabels = modelSummary
+    ? Array.from(
+        new Set([
+          ...modelSummary.labels,
+          ...(typedLabel && !isBackgroundLabel(typedLabel) ? [typedLabel] : []),
+          BACKGROUND_LABEL,
+        ])
+      )
+    : [];
 
   return (
     <SafeAreaView style={[styles.safeArea, { backgroundColor: colors.background }]}>
@@ -609,7 +840,7 @@ export default function MLGestureScreen() {
       >
         <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}> 
           <Text style={[styles.title, { color: colors.textStrong }]}>ML launcher</Text>
-          <Text style={[styles.subtitle, { color: colors.muted }]}>Collect labeled IMU bursts, train a softmax model, and map gestures directly to app launches.</Text>
+          <Text style={[styles.subtitle, { color: colors.muted }]}>Collect labeled IMU bursts, train a recognizer, and map gestures directly to app launches.</Text>
           <View style={styles.statusRow}>
             <Badge icon="database" label={`${datasetSize} samples`} colors={colors} />
             <Badge icon="cpu" label={model ? 'Model ready' : 'Model missing'} colors={colors} />
@@ -621,12 +852,44 @@ export default function MLGestureScreen() {
           <Text style={[styles.sectionTitle, { color: colors.textStrong }]}>Capture controls</Text>
           <Text style={[styles.paragraph, { color: colors.muted }]}>Give the gesture a label, capture ~2 seconds of motion, and either add it to the ML dataset or run a prediction.</Text>
           <TextInput
-            placeholder="maps, whatsapp, etc"
+            placeholder={backgroundMode ? 'Background: walking, typing, setting the phone down' : 'maps, whatsapp, etc'}
             placeholderTextColor={colors.muted}
             style={[styles.input, { backgroundColor: colors.field, color: colors.textStrong, borderColor: colors.border }]}
-            value={labelName}
+            value={backgroundMode ? '' : labelName}
+            editable={!backgroundMode}
             onChangeText={setLabelName}
           />
+          <View style={styles.toolGrid}>
+            <ActionButton
+              label={`Background mode: ${backgroundMode ? 'on' : 'off'}`}
+              icon="slash"
+              variant={backgroundMode ? 'primary' : 'ghost'}
+              onPress={() => setBackgroundMode((prev) => !prev)}
+            />
+          </View>
+          <TextInput
+            placeholder="Profile: who is recording"
+            placeholderTextColor={colors.muted}
+            style={[styles.input, { backgroundColor: colors.field, color: colors.textStrong, borderColor: colors.border }]}
+            value={profileName}
+            onChangeText={setProfileName}
+          />
+          <View style={styles.toolGrid}>
+            {HANDS.map((option) => (
+              <ActionButton
+                key={option}
+                label={option === 'left' ? 'Left hand' : 'Right hand'}
+                variant={option === hand ? 'primary' : 'ghost'}
+                onPress={() => setHand(option)}
+              />
+            ))}
+            <ActionButton
+              label="New session"
+              icon="refresh-cw"
+              variant="ghost"
+              onPress={() => setSessionId(newSessionId())}
+            />
+          </View>
           <Text style={[styles.counter, { color: colors.muted }]}>Samples captured: {count}</Text>
           <View style={styles.toolGrid}>
             <ActionButton
@@ -650,38 +913,83 @@ export default function MLGestureScreen() {
               onPress={predictGesture}
               fullWidth
             />
-            <ActionButton
-              label="Baseline (DTW) predict"
-              icon="trending-up"
-              variant="ghost"
-              disabled={!hasPendingGesture || !Object.keys(dtwTemplates).length}
-              onPress={predictGestureBaseline}
-              fullWidth
-            />
           </View>
         </View>
 
+        {feedback && model ? (
+          <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}> 
+            <Text style={[styles.sectionTitle, { color: colors.textStrong }]}>Teach the model</Text>
+            <Text style={[styles.paragraph, { color: colors.muted }]}>
+              Predicted {displayLabel(feedback.predicted)}. Tap the gesture you actually made (type a label above to add a new one); the sample joins the dataset and the model takes a few update steps.
+            </Text>
+            <View style={styles.toolGrid}>
+              {feedbackLabels.map((label) => (
+                <ActionButton
+                  key={label}
+                  label={modelSummary?.labels.includes(label) || isBackgroundLabel(label) ? displayLabel(label) : `New: ${label}`}
+                  variant={label === feedback.predicted ? 'primary' : 'ghost'}
+                  onPress={() => learnFromFeedback(feedback.samples, label)}
+                />
+              ))}
+              <ActionButton label="Dismiss" icon="x" variant="ghost" onPress={() => setFeedback(null)} />
+            </View>
+          </View>
+        ) : null}
+
         <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}> 
           <View style={styles.sectionHeader}>
             <Text style={[styles.sectionTitle, { color: colors.textStrong }]}>Dataset health</Text>
             <Badge icon="layers" label={`${Object.keys(labelSummary).length} labels`} colors={colors} />
           </View>
+          <Text style={[styles.rowCaption, { color: colors.muted }]}>
+            Feature pipeline: {datasetPipelineId ?? 'unknown layout'}
+            {datasetPipelineId !== pipelineId ? ` · rebuild to switch to ${pipelineId}` : ''}
+          </Text>
+          <View style={styles.toolGrid}>
+            {FEATURE_PIPELINES.map((pipeline) => (
+              <ActionButton
+                key={pipeline.id}
+                label={pipeline.id}
+                variant={pipeline.id === pipelineId ? 'primary' : 'ghost'}
+                onPress={() => setPipelineId(pipeline.id)}
+              />
+            ))}
+          </View>
           {Object.keys(labelSummary).length ? (
             <View style={styles.datasetList}>
               {Object.entries(labelSummary).map(([label, info]) => (
                 <View key={label} style={[styles.datasetRow, { borderColor: colors.border }]}> 
                   <View>
-                    <Text style={[styles.rowTitle, { color: colors.textStrong }]}>{label}</Text>
+                    <Text style={[styles.rowTitle, { color: colors.textStrong }]}>{displayLabel(label)}</Text>
                     <Text style={[styles.rowCaption, { color: colors.muted }]}>
                       {info.count} samples · {info.avgSamples.toFixed(0)} pts · {(info.avgDuration / 1000).toFixed(2)}s
                     </Text>
                   </View>
                 </View>
               ))}
+              {imbalance && (
+                <Text style={[styles.rowCaption, { color: colors.danger }]}>
+                  Label counts are skewed: {displayLabel(imbalance.largest.label)} has {imbalance.largest.count} samples, {displayLabel(imbalance.smallest.label)} only {imbalance.smallest.count} ({imbalance.ratio.toFixed(1)}×). Record more of the smaller labels or turn on Balance classes.
+                </Text>
+              )}
             </View>
           ) : (
             <Text style={[styles.paragraph, { color: colors.muted }]}>No samples yet. Collect at least 10 per label for stable training.</Text>
           )}
+          <Text style={[styles.rowCaption, { color: colors.muted }]}>
+            Evaluation split · {captureCounts.sessions} sessions · {captureCounts.users} users
+          </Text>
+          <View style={styles.toolGrid}>
+            {(['random', 'session', 'user'] as const).map((split) => (
+              <ActionButton
+                key={split}
+                label={split === 'random' ? 'Random' : `Leave one ${split} out`}
+                variant={split === evaluationSplit ? 'primary' : 'ghost'}
+                disabled={split !== 'random' && captureCounts[`${split}s`] < 2}
+                onPress={() => setEvaluationSplit(split)}
+              />
+            ))}
+          </View>
           <View style={styles.toolGrid}>
             <ActionButton label="Export dataset" icon="upload" variant="ghost" onPress={exportDataset} />
             <ActionButton label="Import dataset" icon="download" variant="ghost" onPress={importDataset} />
@@ -696,8 +1004,76 @@ export default function MLGestureScreen() {
               disabled={!dataset.entries.length}
               onPress={evaluateAccuracy}
             />
+            <ActionButton
+              label="Rebuild features"
+              icon="refresh-cw"
+              variant="ghost"
+              disabled={!dataset.entries.length}
+              onPress={rebuildFeatures}
+            />
+            <ActionButton
+              label="Audit samples"
+              icon="search"
+              variant="ghost"
+              disabled={training || dataset.entries.length < 3}
+              onPress={runAudit}
+            />
             <ActionButton label="Clear dataset" icon="trash" variant="danger" onPress={clearDataset} />
           </View>
+          {auditFindings?.length ? (
+            <View style={styles.datasetList}>
+              <Text style={[styles.rowTitle, { color: colors.textStrong }]}>Suspicious samples</Text>
+              {auditFindings.map((finding) => (
+                <View key={finding.id} style={[styles.datasetRow, { borderColor: colors.border }]}>
+                  <View>
+                    <Text style={[styles.rowTitle, { color: colors.textStrong }]}>
+                      {displayLabel(finding.label)} · {finding.id}
+                    </Text>
+                    {finding.reasons.map((reason, idx) => (
+                      <Text key={idx} style={[styles.rowCaption, { color: colors.muted }]}>
+                        {reason.detail}
+                      </Text>
+                    ))}
+                    <View style={styles.toolGrid}>
+                      <ActionButton
+                        label="Delete"
+                        icon="trash"
+                        variant="danger"
+                        onPress={() => resolveFinding(finding.id)}
+                      />
+                      {finding.suggestedLabel && (
+                        <ActionButton
+                          label={`Relabel: ${displayLabel(finding.suggestedLabel)}`}
+                          icon="tag"
+                          variant="ghost"
+                          onPress={() => resolveFinding(finding.id, finding.suggestedLabel)}
+                        />
+                      )}
+                      {typedLabel &&
+                        typedLabel !== finding.label &&
+                        typedLabel !== finding.suggestedLabel &&
+                        !isBackgroundLabel(typedLabel) && (
+                          <ActionButton
+                            label={`Relabel: ${typedLabel}`}
+                            icon="tag"
+                            variant="ghost"
+                            onPress={() => resolveFinding(finding.id, typedLabel)}
+                          />
+                        )}
+                      <ActionButton
+                        label="Keep"
+                        icon="check"
+                        variant="ghost"
+                        onPress={() =>
+                          setAuditFindings((prev) => prev?.filter((other) => other.id !== finding.id) ?? null)
+                        }
+                      />
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </View>
+          ) : null}
         </View>
 
         <View style={[styles.card, { backgroundColor: colors.card, borderColor: colors.border }]}> 
@@ -705,13 +1081,79 @@ export default function MLGestureScreen() {
             <Text style={[styles.sectionTitle, { color: colors.textStrong }]}>Model</Text>
             <Text style={[styles.rowCaption, { color: colors.muted }]}>{modelStatus}</Text>
           </View>
-          {model && (
+          <Text style={[styles.paragraph, { color: colors.muted }]}>Recognizer used for training, evaluation, and predictions.</Text>
+          <View style={styles.toolGrid}>
+            {CLASSIFIER_KINDS.map((kind) => (
+              <ActionButton
+                key={kind}
+                label={CLASSIFIER_LABELS[kind]}
+                variant={kind === classifierKind ? 'primary' : 'ghost'}
+                onPress={() => setClassifierKind(kind)}
+              />
+            ))}
+          </View>
+          <View style={styles.toolGrid}>
+            <ActionButton
+              label={`Augment ×${AUGMENT_COPIES}: ${augmentTraining ? 'on' : 'off'}`}
+              icon="copy"
+              variant={augmentTraining ? 'primary' : 'ghost'}
+              onPress={() => setAugmentTraining((prev) => !prev)}
+            />
+            <ActionButton
+              label={`Balance classes: ${balanceTraining ? 'on' : 'off'}`}
+              icon="sliders"
+              variant={balanceTraining ? 'primary' : 'ghost'}
+              onPress={() => setBalanceTraining((prev) => !prev)}
+            />
+          </View>
+          {modelSummary && (
             <View style={styles.modelStats}>
-              <View>
-                <Text style={[styles.rowTitle, { color: colors.textStrong }]}>Loss trend</Text>
-                <Text style={[styles.rowCaption, { color: colors.muted }]}>Final loss {(model.lossHistory[model.lossHistory.length - 1] ?? 0).toFixed(4)}</Text>
-              </View>
-              <Text style={[styles.rowCaption, { color: colors.muted }]}>Trained {(new Date(model.trainedAt)).toLocaleString()}</Text>
+              {modelSummary.finalLoss !== undefined && (
+                <View>
+                  <Text style={[styles.rowTitle, { color: colors.textStrong }]}>Loss trend</Text>
+                  <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                    Final loss {modelSummary.finalLoss.toFixed(4)}
+                    {modelSummary.finalValidationLoss !== undefined ? ` · validation ${modelSummary.finalValidationLoss.toFixed(4)}` : ''}
+                  </Text>
+                </View>
+              )}
+              <Text style={[styles.rowCaption, { color: colors.muted }]}>Trained {(new Date(modelSummary.trainedAt)).toLocaleString()}</Text>
+              {modelSummary.outOfBagAccuracy !== undefined && (
+                <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                  Out-of-bag accuracy {(modelSummary.outOfBagAccuracy * 100).toFixed(1)}%
+                </Text>
+              )}
+              {modelSummary.shrinkage !== undefined && (
+                <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                  Covariance shrinkage {modelSummary.shrinkage.toFixed(2)}
+                </Text>
+              )}
+              {modelSummary.neighbors && (
+                <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                  k = {modelSummary.neighbors.k} · {modelSummary.neighbors.metric} distance · {modelSummary.neighbors.scaling === 'robust' ? 'median/IQR' : 'z-score'} scaling
+                </Text>
+              )}
+              {modelSummary.hmm && (
+                <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                  {modelSummary.hmm.states} hidden states per gesture · {modelSummary.hmm.scoring === 'viterbi' ? 'best-path' : 'forward'} scoring
+                </Text>
+              )}
+              {modelSummary.ensemble && (
+                <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                  {modelSummary.ensemble.method === 'product' ? 'Product of experts' : 'Weighted vote'}:{' '}
+                  {modelSummary.ensemble.members
+                    .map((kind, idx) => `${CLASSIFIER_LABELS[kind]} ${(modelSummary.ensemble!.weights[idx] * 100).toFixed(0)}%`)
+                    .join(' · ')}
+                  {modelSummary.ensemble.validationAccuracy !== undefined
+                    ? ` · ${(modelSummary.ensemble.validationAccuracy * 100).toFixed(1)}% held-out`
+                    : ''}
+                </Text>
+              )}
+              <Text style={[styles.rowCaption, { color: colors.muted }]}>
+                {model?.rejection
+                  ? `Unknown-gesture thresholds from ${model.rejection.calibrationSamples} held-out samples`
+                  : 'No calibrated thresholds · unknown below 55% confidence'}
+              </Text>
             </View>
           )}
           <View style={styles.toolGrid}>
@@ -725,6 +1167,13 @@ export default function MLGestureScreen() {
             <ActionButton label="Export model" icon="upload" variant="secondary" onPress={exportModel} />
             <ActionButton label="Import model" icon="download" variant="secondary" onPress={importModel} />
             <ActionButton label="Clear model" icon="x-circle" variant="ghost" onPress={clearModel} />
+            <ActionButton
+              label="Feature report"
+              icon="pie-chart"
+              variant="ghost"
+              disabled={!model || training || !dataset.entries.length}
+              onPress={showFeatureReport}
+            />
           </View>
         </View>
       </ScrollView>
@@ -0,0 +1,223 @@
+import {
+  computeFeatureScaling,
+  isBackgroundLabel,
+  type GestureDataset,
+  type GestureDatasetEntry,
+} from './gesture-ml';
+import {
+  trainClassifier,
+  type ClassifierKind,
+  type ClassifierTrainOptions,
+} from './gesture-classifiers';
+import { dtwDistance } from './gesture-dtw';
+import { DEFAULT_PIPELINE_ID, getFeaturePipeline, preprocessSamples } from './gesture-features';
+import { DEFAULT_SAMPLE_RATE_HZ } from './gesture-resample';
+
+export type AuditDistance = 'feature' | 'dtw';
+
+export const AUDIT_DISTANCES: AuditDistance[] = ['feature', 'dtw'];
+
+export type AuditReasonKind = 'misclassified' | 'outlier' | 'duration' | 'sample-count';
+
+export type AuditReason = {
+  kind: AuditReasonKind;
+  /** Human-readable explanation, e.g. "predicted circle (87%) when left out". */
+  detail: string;
+  /** Severity in (1, 2]: the confidence of a disagreement, or z / threshold for outlier checks. */
+  score: number;
+};
+
+export type AuditFinding = {
+  id: string;
+  label: string;
+  /** Sum of the reason scores; findings are sorted by it, worst first. */
+  score: number;
+  reasons: AuditReason[];
+  /** Label the leave-one-out model preferred, when it disagreed. */
+  suggestedLabel?: string;
+};
+
+export type AuditReport = {
+  findings: AuditFinding[];
+  /** Real recordings that were checked (augmented copies are skipped). */
+  checked: number;
+  classifier: ClassifierKind;
+  distance: AuditDistance;
+};
+
+export type AuditOptions = ClassifierTrainOptions & {
+  /** Recognizer retrained for every left-out recording; k-NN is cheap enough for the device. */
+  classifier?: ClassifierKind;
+  /** How intra-label outliers are measured; `dtw` needs raw samples. */
+  distance?: AuditDistance;
+  /** Robust z-score above which a recording counts as an outlier. */
+  threshold?: number;
+};
+
+// Scales a median absolute deviation to a standard deviation for normal data.
+const MAD_TO_STD = 1.4826;
+
+// Caps one outlier check so an extreme recording cannot bury a confident mislabel.
+const MAX_OUTLIER_SCORE = 2;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Robust z-scores around the median. The spread is floored at 5% of the
+ * median so labels whose recordings are nearly identical do not flag noise.
+ */
+function robustScores(values: number[]) {
+  const center = median(values);
+  const spread = Math.max(
+    MAD_TO_STD * median(values.map((v) => Math.abs(v - center))),
+    0.05 * Math.abs(center),
+    1e-9
+  );
+  return values.map((v) => (v - center) / spread);
+}
+
+/** Mean distance from each recording to the others of its label. */
+function meanLabelDistances(
+  dataset: GestureDataset,
+  group: GestureDatasetEntry[],
+  distance: AuditDistance
+) {
+  let pairwise: (a: number, b: number) => number;
+  if (distance === 'dtw') {
+    const pipeline = getFeaturePipeline(dataset.pipelineId ?? DEFAULT_PIPELINE_ID);
+    const sequences = group.map((entry) => preprocessSamples(pipeline, entry.samples ?? []));
+    const resample = {
+      rateHz: pipeline.resampleHz ?? DEFAULT_SAMPLE_RATE_HZ,
+      method: pipeline.resampleMethod,
+    };
+    pairwise = (a, b) => dtwDistance(sequences[a], sequences[b], { resample });
+  } else {
+    const { featureMeans, featureStd } = computeFeatureScaling(
+      dataset.entries.map((entry) => entry.values),
+      dataset.featureNames.length
+    );
+    const rows = group.map((entry) =>
+      entry.values.map((value, idx) => (value - featureMeans[idx]) / featureStd[idx])
+    );
+    pairwise = (a, b) =>
+      Math.sqrt(rows[a].reduce((sum, value, idx) => sum + (value - rows[b][idx]) ** 2, 0));
+  }
+  const totals = new Array(group.length).fill(0);
+  for (let a = 0; a < group.length; a++) {
+    for (let b = a + 1; b < group.length; b++) {
+      const d = pairwise(a, b);
+      totals[a] += d;
+      totals[b] += d;
+    }
+  }
+  return totals.map((total) => total / (group.length - 1));
+}
+
+/**
+ * Ranks recordings that are likely botched or saved under the wrong label.
+ * Three checks run on real recordings:
+ * - leave-one-out: retrain without the recording (and its augmented copies)
+ *   and flag it when the model predicts another label;
+ * - intra-label outliers: mean feature-space or DTW distance to the rest of
+ *   the label, as a robust z-score;
+ * - duration and sample-count anomalies within the label.
+ * Outlier checks need at least three recordings of a label and skip the
+ * background class, whose recordings are meant to differ.
+ */
+export function auditDataset(dataset: GestureDataset, options: AuditOptions = {}): AuditReport {
+  const { classifier = 'knn', distance = 'feature', threshold = 3.5, ...trainOptions } = options;
+  if (!AUDIT_DISTANCES.includes(distance)) {
+    throw new Error(`Unknown audit distance "${distance}"`);
+  }
+  if (!(threshold > 0)) {
+    throw new Error('threshold must be positive');
+  }
+  const real = dataset.entries.filter((entry) => !entry.augmentedFrom);
+  if (!real.length) {
+    throw new Error('Cannot audit an empty dataset');
+  }
+  const findings = new Map<string, AuditFinding>();
+  const flag = (entry: GestureDatasetEntry, reason: AuditReason, suggestedLabel?: string) => {
+    const finding = findings.get(entry.id) ?? { id: entry.id, label: entry.label, score: 0, reasons: [] };
+    finding.reasons.push(reason);
+    finding.score += reason.score;
+    if (suggestedLabel) finding.suggestedLabel = suggestedLabel;
+    findings.set(entry.id, finding);
+  };
+
+  const byLabel: Record<string, GestureDatasetEntry[]> = {};
+  real.forEach((entry) => {
+    if (!byLabel[entry.label]) byLabel[entry.label] = [];
+    byLabel[entry.label].push(entry);
+  });
+
+  // A label with a single recording disappears when it is left out, so it cannot be judged.
+  const judgeable = real.filter((entry) => byLabel[entry.label].length >= 2);
+  if (Object.keys(byLabel).length >= 2) {
+    judgeable.forEach((entry) => {
+      const model = trainClassifier(
+        classifier,
+        {
+          ...dataset,
+          entries: dataset.entries.filter(
+            (other) => other.id !== entry.id && other.augmentedFrom !== entry.id
+          ),
+        },
+        trainOptions
+      );
+      const prediction = model.predict({ values: entry.values, samples: entry.samples });
+      if (prediction.label === entry.label) return;
+      flag(
+        entry,
+        {
+          kind: 'misclassified',
+          detail: `predicted ${prediction.label} (${(prediction.confidence * 100).toFixed(0)}%) when left out`,
+          // On the same 1–2 scale as a capped outlier check, by confidence.
+          score: 1 + prediction.confidence,
+        },
+        prediction.label
+      );
+    });
+  }
+
+  Object.entries(byLabel).forEach(([label, group]) => {
+    if (group.length < 3 || isBackgroundLabel(label)) return;
+    const sequenced = distance === 'dtw' ? group.filter((entry) => entry.samples?.length) : group;
+    if (sequenced.length >= 3) {
+      robustScores(meanLabelDistances(dataset, sequenced, distance)).forEach((z, idx) => {
+        if (z <= threshold) return;
+        flag(sequenced[idx], {
+          kind: 'outlier',
+          detail: `far from other ${label} recordings (${distance} distance, z = ${z.toFixed(1)})`,
+          score: Math.min(MAX_OUTLIER_SCORE, z / threshold),
+        });
+      });
+    }
+    const checks: { kind: 'duration' | 'sample-count'; values: number[]; unit: string }[] = [
+      { kind: 'duration', values: group.map((entry) => entry.durationMs), unit: 'ms' },
+      { kind: 'sample-count', values: group.map((entry) => entry.sampleCount), unit: 'samples' },
+    ];
+    checks.forEach(({ kind, values, unit }) => {
+      const typical = median(values);
+      robustScores(values).forEach((z, idx) => {
+        if (Math.abs(z) <= threshold) return;
+        flag(group[idx], {
+          kind,
+          detail: `${z > 0 ? 'long' : 'short'} for ${label}: ${values[idx].toFixed(0)} ${unit} vs typical ${typical.toFixed(0)}`,
+          score: Math.min(MAX_OUTLIER_SCORE, Math.abs(z) / threshold),
+        });
+      });
+    });
+  });
+
+  return {
+    findings: Array.from(findings.values()).sort((a, b) => b.score - a.score),
+    checked: real.length,
+    classifier,
+    distance,
+  };
+}
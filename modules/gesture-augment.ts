@@ -0,0 +1,215 @@
+import {
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type SensorSample,
+} from './gesture-ml';
+import {
+  getFeaturePipeline,
+  resolvePipelineId,
+  runFeaturePipeline,
+} from './gesture-features';
+
+export type AugmentationKind =
+  | 'time-warp'
+  | 'scale'
+  | 'jitter'
+  | 'rotate'
+  | 'mirror'
+  | 'crop';
+
+export const AUGMENTATION_KINDS: AugmentationKind[] = [
+  'time-warp',
+  'scale',
+  'jitter',
+  'rotate',
+  'mirror',
+  'crop',
+];
+
+/**
+ * Mirroring turns a left swipe into a right one, so it is opt-in: only use it
+ * when labels are symmetric.
+ */
+export const DEFAULT_AUGMENTATIONS: AugmentationKind[] = [
+  'time-warp',
+  'scale',
+  'jitter',
+  'rotate',
+  'crop',
+];
+
+export type AugmentOptions = {
+  /** Synthetic variants generated per recording. */
+  copies?: number;
+  kinds?: AugmentationKind[];
+  seed?: number;
+  /** Max relative speed change for time warping (0.2 = ±20%). */
+  warpStrength?: number;
+  /** Std-dev of the per-axis magnitude factor around 1. */
+  scaleStd?: number;
+  /** Noise std-dev in g for accel; gyro noise is 2.5x larger in rad/s. */
+  jitterStd?: number;
+  /** Max rotation per axis, in degrees. */
+  rotationDeg?: number;
+  /** Max share of the recording cropped away. */
+  cropFraction?: number;
+};
+
+type Random = () => number;
+
+function gaussian(random: Random) {
+  const u = Math.max(random(), 1e-12);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+const uniform = (random: Random, max: number) => (random() * 2 - 1) * max;
+
+/** Stretches and compresses time smoothly through a few random speed knots. */
+function timeWarp(samples: SensorSample[], random: Random, strength: number) {
+  if (samples.length < 2) return samples;
+  const knots = Array.from({ length: 4 }, () => 1 + uniform(random, strength));
+  const start = samples[0].t;
+  const span = samples[samples.length - 1].t - start || 1;
+  let t = start;
+  return samples.map((s, idx) => {
+    if (idx > 0) {
+      const pos = ((s.t - start) / span) * (knots.length - 1);
+      const k = Math.min(knots.length - 2, Math.floor(pos));
+      const speed = knots[k] + (knots[k + 1] - knots[k]) * (pos - k);
+      t += (s.t - samples[idx - 1].t) / speed;
+    }
+    return { ...s, t };
+  });
+}
+
+function scaleMagnitude(samples: SensorSample[], random: Random, std: number) {
+  const f = Array.from({ length: 6 }, () => 1 + gaussian(random) * std);
+  return samples.map((s) => ({
+    t: s.t,
+    ax: s.ax * f[0],
+    ay: s.ay * f[1],
+    az: s.az * f[2],
+    gx: s.gx * f[3],
+    gy: s.gy * f[4],
+    gz: s.gz * f[5],
+  }));
+}
+
+function jitter(samples: SensorSample[], random: Random, std: number) {
+  const gyroStd = std * 2.5;
+  return samples.map((s) => ({
+    t: s.t,
+    ax: s.ax + gaussian(random) * std,
+    ay: s.ay + gaussian(random) * std,
+    az: s.az + gaussian(random) * std,
+    gx: s.gx + gaussian(random) * gyroStd,
+    gy: s.gy + gaussian(random) * gyroStd,
+    gz: s.gz + gaussian(random) * gyroStd,
+  }));
+}
+
+/** Applies one small random rotation to both accel and gyro vectors. */
+function rotate(samples: SensorSample[], random: Random, maxDeg: number) {
+  const [x, y, z] = [0, 1, 2].map(() => (uniform(random, maxDeg) * Math.PI) / 180);
+  const [cx, sx, cy, sy, cz, sz] = [
+    Math.cos(x),
+    Math.sin(x),
+    Math.cos(y),
+    Math.sin(y),
+    Math.cos(z),
+    Math.sin(z),
+  ];
+  // R = Rz * Ry * Rx
+  const r = [
+    [cz * cy, cz * sy * sx - sz * cx, cz * sy * cx + sz * sx],
+    [sz * cy, sz * sy * sx + cz * cx, sz * sy * cx - cz * sx],
+    [-sy, cy * sx, cy * cx],
+  ];
+  const apply = (v: number[]) => r.map((row) => row[0] * v[0] + row[1] * v[1] + row[2] * v[2]);
+  return samples.map((s) => {
+    const [ax, ay, az] = apply([s.ax, s.ay, s.az]);
+    const [gx, gy, gz] = apply([s.gx, s.gy, s.gz]);
+    return { t: s.t, ax, ay, az, gx, gy, gz };
+  });
+}
+
+/**
+ * Reflects the motion left/right across the device's y-z plane. Angular
+ * velocity is a pseudovector, so its y and z components flip instead of x.
+ */
+function mirror(samples: SensorSample[]) {
+  return samples.map((s) => ({ ...s, ax: -s.ax, gy: -s.gy, gz: -s.gz }));
+}
+
+/** Keeps a randomly placed window, which also shifts where the gesture starts. */
+function crop(samples: SensorSample[], random: Random, fraction: number) {
+  const drop = Math.floor(samples.length * fraction * random());
+  if (drop <= 0 || samples.length - drop < 4) return samples;
+  const offset = Math.floor(random() * (drop + 1));
+  return samples.slice(offset, samples.length - (drop - offset));
+}
+
+/** Produces one synthetic variant of a recorded sequence. */
+export function augmentSequence(
+  samples: SensorSample[],
+  random: Random,
+  options: AugmentOptions = {}
+): SensorSample[] {
+  const kinds = new Set(options.kinds ?? DEFAULT_AUGMENTATIONS);
+  let out = samples;
+  if (kinds.has('crop')) out = crop(out, random, options.cropFraction ?? 0.1);
+  if (kinds.has('time-warp')) out = timeWarp(out, random, options.warpStrength ?? 0.2);
+  if (kinds.has('scale')) out = scaleMagnitude(out, random, options.scaleStd ?? 0.1);
+  if (kinds.has('rotate')) out = rotate(out, random, options.rotationDeg ?? 10);
+  // Mirror half of the copies so both hands stay represented.
+  if (kinds.has('mirror') && random() < 0.5) out = mirror(out);
+  if (kinds.has('jitter')) out = jitter(out, random, options.jitterStd ?? 0.02);
+  return out;
+}
+
+/**
+ * Returns the dataset plus `copies` synthetic variants of every entry with raw
+ * samples, featurized with the dataset's own pipeline. Copies carry
+ * `augmentedFrom` so evaluation keeps them out of test folds.
+ */
+export function augmentDataset(
+  dataset: GestureDataset,
+  options: AugmentOptions = {}
+): GestureDataset {
+  const copies = options.copies ?? 3;
+  if (!Number.isInteger(copies) || copies < 0) {
+    throw new Error('Augmentation copies must be a non-negative integer');
+  }
+  const unknown = (options.kinds ?? []).filter((kind) => !AUGMENTATION_KINDS.includes(kind));
+  if (unknown.length) {
+    throw new Error(`Unknown augmentation "${unknown[0]}"`);
+  }
+  if (!copies || !dataset.entries.length) return dataset;
+  const pipeline = getFeaturePipeline(
+    resolvePipelineId(dataset.featureNames, dataset.pipelineId)
+  );
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  const synthetic: GestureDatasetEntry[] = [];
+
+  dataset.entries.forEach((entry) => {
+    if (entry.augmentedFrom || !entry.samples || entry.samples.length < 2) return;
+    for (let copy = 0; copy < copies; copy++) {
+      const samples = augmentSequence(entry.samples, random, options);
+      const { features } = runFeaturePipeline(pipeline, samples);
+      synthetic.push({
+        id: `${entry.id}-aug-${copy + 1}`,
+        label: entry.label,
+        values: features.values,
+        sampleCount: features.sampleCount,
+        durationMs: features.durationMs,
+        samples,
+        augmentedFrom: entry.id,
+      });
+    }
+  });
+
+  return { ...dataset, entries: [...dataset.entries, ...synthetic] };
+}
@@ -0,0 +1,97 @@
+import {
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  shuffleInPlace,
+  type GestureDataset,
+  type GestureDatasetEntry,
+} from './gesture-ml';
+
+export type BalanceStrategy = 'oversample' | 'undersample';
+
+export const BALANCE_STRATEGIES: BalanceStrategy[] = ['oversample', 'undersample'];
+
+export type BalanceOptions = {
+  /**
+   * `oversample` repeats recordings of smaller labels up to the largest one;
+   * `undersample` drops recordings of larger labels down to the smallest.
+   */
+  strategy: BalanceStrategy;
+  seed?: number;
+};
+
+/** Largest-to-smallest label count ratio at which the ML tab warns. */
+export const IMBALANCE_WARNING_RATIO = 3;
+
+export type LabelImbalance = {
+  largest: { label: string; count: number };
+  smallest: { label: string; count: number };
+  /** largest.count / smallest.count */
+  ratio: number;
+};
+
+/** Most and least frequent labels, or null with fewer than two labels. */
+export function labelImbalance(counts: Record<string, number>): LabelImbalance | null {
+  const ranked = Object.entries(counts)
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1]);
+  if (ranked.length < 2) return null;
+  const [largestLabel, largestCount] = ranked[0];
+  const [smallestLabel, smallestCount] = ranked[ranked.length - 1];
+  return {
+    largest: { label: largestLabel, count: largestCount },
+    smallest: { label: smallestLabel, count: smallestCount },
+    ratio: largestCount / smallestCount,
+  };
+}
+
+/**
+ * Evens out real recordings per label. Augmented copies travel with their
+ * source recording, and oversampled repeats are tagged with `augmentedFrom`,
+ * so evaluation never tests on them and leave-one-out skips them with the
+ * original.
+ */
+export function balanceDataset(dataset: GestureDataset, options: BalanceOptions): GestureDataset {
+  if (!BALANCE_STRATEGIES.includes(options.strategy)) {
+    throw new Error(`Unknown balance strategy "${options.strategy}"`);
+  }
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  // Each group is one real recording followed by its augmented copies.
+  const groups = new Map<string, GestureDatasetEntry[]>();
+  dataset.entries.forEach((entry) => {
+    const source = entry.augmentedFrom ?? entry.id;
+    const group = groups.get(source) ?? [];
+    group.push(entry);
+    groups.set(source, group);
+  });
+  const byLabel: Record<string, GestureDatasetEntry[][]> = {};
+  groups.forEach((group) => {
+    const { label } = group[0];
+    if (!byLabel[label]) byLabel[label] = [];
+    byLabel[label].push(group);
+  });
+  const sizes = Object.values(byLabel).map((labelGroups) => labelGroups.length);
+  if (sizes.length < 2) return dataset;
+  const target =
+    options.strategy === 'oversample' ? Math.max(...sizes) : Math.min(...sizes);
+
+  const entries: GestureDatasetEntry[] = [];
+  Object.keys(byLabel)
+    .sort()
+    .forEach((label) => {
+      const labelGroups = byLabel[label];
+      if (options.strategy === 'undersample') {
+        shuffleInPlace(labelGroups, random);
+        labelGroups.slice(0, target).forEach((group) => entries.push(...group));
+        return;
+      }
+      labelGroups.forEach((group) => entries.push(...group));
+      for (let repeat = 0; labelGroups.length + repeat < target; repeat++) {
+        const group = labelGroups[Math.floor(random() * labelGroups.length)];
+        const source = group[0].augmentedFrom ?? group[0].id;
+        group.forEach((entry) =>
+          entries.push({ ...entry, id: `${entry.id}-dup-${repeat + 1}`, augmentedFrom: source })
+        );
+      }
+    });
+  return { ...dataset, entries };
+}
@@ -0,0 +1,989 @@
+import {
+  evaluateOnDataset,
+  predictFromModel,
+  predictNearestNeighbor,
+  trainSoftmaxModel,
+  updateSoftmaxModel,
+  type EvaluationOptions,
+  type EvaluationResult,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type GestureModel,
+  type PredictionResult,
+  type SensorSample,
+  type SoftmaxTrainOptions,
+} from './gesture-ml';
+import { augmentDataset, type AugmentOptions } from './gesture-augment';
+import { balanceDataset, type BalanceOptions } from './gesture-balance';
+import {
+  predictFromCnn,
+  trainCnnModel,
+  updateCnnModel,
+  type CnnModel,
+  type CnnTrainOptions,
+} from './gesture-cnn';
+import { predictDtw, type DtwTemplates } from './gesture-dtw';
+import {
+  DEFAULT_PIPELINE_ID,
+  LEGACY_PIPELINE_ID,
+  getFeaturePipeline,
+  preprocessSamples,
+} from './gesture-features';
+import { DEFAULT_SAMPLE_RATE_HZ } from './gesture-resample';
+import {
+  applyRejection,
+  calibrateRejection,
+  refreshRejection,
+  rejectionFromHeldOut,
+  type HeldOutPrediction,
+  type OpenSetPrediction,
+  type RejectionCalibrationOptions,
+  type RejectionThresholds,
+} from './gesture-rejection';
+import {
+  fuseDistributions,
+  tuneEnsembleWeights,
+  type EnsembleMethod,
+  type EnsembleTuneOptions,
+} from './gesture-ensemble';
+import {
+  predictFromForest,
+  trainForestModel,
+  updateForestModel,
+  type ForestModel,
+  type ForestTrainOptions,
+} from './gesture-forest';
+import {
+  predictFromLda,
+  predictFromNaiveBayes,
+  trainLdaModel,
+  trainNaiveBayesModel,
+  type GenerativeTrainOptions,
+  type LdaModel,
+  type NaiveBayesModel,
+} from './gesture-generative';
+import {
+  predictFromHmm,
+  trainHmmModel,
+  type HmmModel,
+  type HmmScoring,
+  type HmmSequences,
+  type HmmTrainOptions,
+} from './gesture-hmm';
+import {
+  predictFromKnn,
+  trainKnnModel,
+  updateKnnModel,
+  type KnnMetric,
+  type KnnModel,
+  type KnnScaling,
+  type KnnTrainOptions,
+} from './gesture-knn';
+import {
+  predictFromMlp,
+  trainMlpModel,
+  updateMlpModel,
+  type MlpModel,
+  type MlpTrainOptions,
+} from './gesture-mlp';
+
+export type ClassifierKind =
+  | 'softmax'
+  | 'mlp'
+  | 'cnn'
+  | 'knn'
+  | 'naive-bayes'
+  | 'lda'
+  | 'decision-tree'
+  | 'random-forest'
+  | 'nearest-neighbor'
+  | 'dtw'
+  | 'hmm'
+  | 'ensemble';
+
+export const CLASSIFIER_KINDS: ClassifierKind[] = [
+  'softmax',
+  'mlp',
+  'cnn',
+  'knn',
+  'naive-bayes',
+  'lda',
+  'decision-tree',
+  'random-forest',
+  'nearest-neighbor',
+  'dtw',
+  'hmm',
+  'ensemble',
+];
+
+export const CLASSIFIER_LABELS: Record<ClassifierKind, string> = {
+  softmax: 'Softmax',
+  mlp: 'MLP',
+  cnn: '1D CNN',
+  knn: 'k-NN',
+  'naive-bayes': 'Naive Bayes',
+  lda: 'LDA',
+  'decision-tree': 'Decision tree',
+  'random-forest': 'Random forest',
+  'nearest-neighbor': 'Nearest neighbor',
+  dtw: 'DTW',
+  hmm: 'HMM',
+  ensemble: 'Ensemble',
+};
+
+/** Recognizers whose votes the ensemble fuses, in weight order. */
+export const ENSEMBLE_MEMBERS: ClassifierKind[] = ['softmax', 'knn', 'dtw'];
+
+/**
+ * Feature-space recognizers read `values`; sequence recognizers read the
+ * recorded `samples` and apply their own pipeline's preprocessing.
+ */
+export type ClassifierInput = {
+  values: number[];
+  samples?: SensorSample[];
+};
+
+export type ClassifierTrainOptions = SoftmaxTrainOptions &
+  MlpTrainOptions &
+  CnnTrainOptions &
+  KnnTrainOptions &
+  GenerativeTrainOptions &
+  ForestTrainOptions &
+  HmmTrainOptions & {
+    /** Adds synthetic variants of the training entries before fitting. */
+    augment?: AugmentOptions;
+    /** Over- or undersamples labels to equal size after augmentation. */
+    balance?: BalanceOptions;
+    /** Fit open-set thresholds from cross-validated predictions after training. */
+    rejection?: RejectionCalibrationOptions;
+    /** How the ensemble tunes its member weights on held-out data. */
+    ensemble?: EnsembleTuneOptions;
+  };
+
+export type SerializedClassifier = (
+  | { kind: 'softmax'; model: GestureModel }
+  | { kind: 'mlp'; model: MlpModel }
+  | { kind: 'cnn'; model: CnnModel }
+  | { kind: 'knn'; model: KnnModel }
+  | { kind: 'naive-bayes'; model: NaiveBayesModel }
+  | { kind: 'lda'; model: LdaModel }
+  | { kind: 'decision-tree' | 'random-forest'; model: ForestModel }
+  | { kind: 'nearest-neighbor'; dataset: GestureDataset; trainedAt: number }
+  | {
+      kind: 'dtw';
+      templates: DtwTemplates;
+      trainedAt: number;
+      pipelineId?: string;
+    }
+  | { kind: 'hmm'; model: HmmModel }
+  | {
+      kind: 'ensemble';
+      members: SerializedClassifier[];
+      method: EnsembleMethod;
+      weights: number[];
+      /** Held-out accuracy the weights were tuned for; absent when untuned. */
+      validationAccuracy?: number;
+      trainedAt: number;
+    }
+) & { rejection?: RejectionThresholds };
+
+export type ClassifierSummary = {
+  kind: ClassifierKind;
+  labels: string[];
+  trainingSamples: number;
+  trainedAt: number;
+  /** Feature layout the classifier expects; absent for sequence recognizers. */
+  featureNames?: string[];
+  /** Feature pipeline to run on new recordings; absent in legacy models. */
+  pipelineId?: string;
+  finalLoss?: number;
+  finalValidationLoss?: number;
+  /** Random forest only: accuracy on recordings each tree did not see. */
+  outOfBagAccuracy?: number;
+  /** LDA only: covariance shrinkage in use. */
+  shrinkage?: number;
+  /** k-NN only: the neighbor count in use and how distances are measured. */
+  neighbors?: { k: number; metric: KnnMetric; scaling: KnnScaling };
+  /** HMM only: hidden states per label and how sequences are scored. */
+  hmm?: { states: number; scoring: HmmScoring };
+  /** Ensemble only: members and the weights tuned for them. */
+  ensemble?: {
+    members: ClassifierKind[];
+    method: EnsembleMethod;
+    weights: number[];
+    validationAccuracy?: number;
+  };
+};
+
+export interface GestureClassifier {
+  readonly kind: ClassifierKind;
+  /** Open-set thresholds; kept outside the adapters so every kind shares them. */
+  rejection?: RejectionThresholds;
+  train(dataset: GestureDataset, options?: ClassifierTrainOptions): void;
+  /**
+   * Adapts the trained state to an updated dataset. Weight-based models take a
+   * few warm-started steps; exemplar-based ones simply re-index and
+   * closed-form ones refit.
+   */
+  update(dataset: GestureDataset, options?: ClassifierTrainOptions): void;
+  predict(input: ClassifierInput): PredictionResult;
+  summary(): ClassifierSummary;
+  serialize(): SerializedClassifier;
+  deserialize(payload: SerializedClassifier): void;
+  /**
+   * Held-out predictions the last `train` collected anyway (the ensemble's
+   * weight tuning). Rejection calibrates on them instead of refitting per fold.
+   */
+  heldOutPredictions?(): HeldOutPrediction[];
+}
+
+function expectKind<K extends ClassifierKind>(
+  payload: SerializedClassifier,
+  kind: K
+): Extract<SerializedClassifier, { kind: K }> {
+  if (payload.kind !== kind) {
+    throw new Error(`Expected a ${kind} payload, got ${payload.kind}`);
+  }
+  return payload as Extract<SerializedClassifier, { kind: K }>;
+}
+
+function createSoftmaxClassifier(): GestureClassifier {
+  let model: GestureModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('Softmax model has not been trained');
+    return model;
+  };
+  return {
+    kind: 'softmax',
+    train(dataset, options) {
+      model = trainSoftmaxModel(dataset, options);
+    },
+    update(dataset, options) {
+      model = updateSoftmaxModel(requireModel(), dataset, options);
+    },
+    predict(input) {
+      return predictFromModel(requireModel(), input.values);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'softmax',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        featureNames: m.featureNames,
+        pipelineId: m.pipelineId,
+        finalLoss: m.lossHistory[m.lossHistory.length - 1],
+        finalValidationLoss: m.validationLossHistory?.[m.validationLossHistory.length - 1],
+      };
+    },
+    serialize() {
+      return { kind: 'softmax', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'softmax').model;
+    },
+  };
+}
+
+function createMlpClassifier(): GestureClassifier {
+  let model: MlpModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('MLP model has not been trained');
+    return model;
+  };
+  return {
+    kind: 'mlp',
+    train(dataset, options) {
+      model = trainMlpModel(dataset, options);
+    },
+    update(dataset, options) {
+      model = updateMlpModel(requireModel(), dataset, options);
+    },
+    predict(input) {
+      return predictFromMlp(requireModel(), input.values);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'mlp',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        featureNames: m.featureNames,
+        pipelineId: m.pipelineId,
+        finalLoss: m.lossHistory[m.lossHistory.length - 1],
+        finalValidationLoss: m.validationLossHistory?.[m.validationLossHistory.length - 1],
+      };
+    },
+    serialize() {
+      return { kind: 'mlp', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'mlp').model;
+    },
+  };
+}
+
+/** Learns from the raw sample window, so it reports no feature layout. */
+function createCnnClassifier(): GestureClassifier {
+  let model: CnnModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('CNN model has not been trained');
+    return model;
+  };
+  return {
+    kind: 'cnn',
+    train(dataset, options) {
+      model = trainCnnModel(dataset, options);
+    },
+    update(dataset, options) {
+      model = updateCnnModel(requireModel(), dataset, options);
+    },
+    predict(input) {
+      if (!input.samples || !input.samples.length) {
+        throw new Error('CNN prediction needs the raw sensor sequence');
+      }
+      return predictFromCnn(requireModel(), input.samples);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'cnn',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        pipelineId: m.pipelineId,
+        finalLoss: m.lossHistory[m.lossHistory.length - 1],
+        finalValidationLoss: m.validationLossHistory?.[m.validationLossHistory.length - 1],
+      };
+    },
+    serialize() {
+      return { kind: 'cnn', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'cnn').model;
+    },
+  };
+}
+
+function createKnnClassifier(): GestureClassifier {
+  let model: KnnModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('k-NN index is empty');
+    return model;
+  };
+  return {
+    kind: 'knn',
+    train(dataset, options) {
+      model = trainKnnModel(dataset, options);
+    },
+    update(dataset) {
+      model = updateKnnModel(requireModel(), dataset);
+    },
+    predict(input) {
+      return predictFromKnn(requireModel(), input.values);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'knn',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        featureNames: m.featureNames,
+        pipelineId: m.pipelineId,
+        neighbors: { k: m.k, metric: m.metric, scaling: m.scaling },
+      };
+    },
+    serialize() {
+      return { kind: 'knn', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'knn').model;
+    },
+  };
+}
+
+function createNaiveBayesClassifier(): GestureClassifier {
+  let model: NaiveBayesModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('Naive Bayes model has not been trained');
+    return model;
+  };
+  // Closed-form fits are cheap, so an update simply refits on the new dataset.
+  const fit = (dataset: GestureDataset, options?: ClassifierTrainOptions) => {
+    model = trainNaiveBayesModel(dataset, {
+      varianceSmoothing: options?.varianceSmoothing ?? model?.varianceSmoothing,
+    });
+  };
+  return {
+    kind: 'naive-bayes',
+    train: fit,
+    update: fit,
+    predict(input) {
+      return predictFromNaiveBayes(requireModel(), input.values);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'naive-bayes',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        featureNames: m.featureNames,
+        pipelineId: m.pipelineId,
+      };
+    },
+    serialize() {
+      return { kind: 'naive-bayes', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'naive-bayes').model;
+    },
+  };
+}
+
+function createLdaClassifier(): GestureClassifier {
+  let model: LdaModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('LDA model has not been trained');
+    return model;
+  };
+  // Without an explicit shrinkage, Ledoit-Wolf re-picks it for the new data.
+  const fit = (dataset: GestureDataset, options?: ClassifierTrainOptions) => {
+    model = trainLdaModel(dataset, { shrinkage: options?.shrinkage });
+  };
+  return {
+    kind: 'lda',
+    train: fit,
+    update: fit,
+    predict(input) {
+      return predictFromLda(requireModel(), input.values);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'lda',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        featureNames: m.featureNames,
+        pipelineId: m.pipelineId,
+        shrinkage: m.shrinkage,
+      };
+    },
+    serialize() {
+      return { kind: 'lda', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'lda').model;
+    },
+  };
+}
+
+/**
+ * Trees split raw feature values, so neither kind needs feature scaling. A
+ * decision tree is a forest of one grown on every entry and feature.
+ */
+function createForestClassifier(kind: 'decision-tree' | 'random-forest'): GestureClassifier {
+  let model: ForestModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error(`${CLASSIFIER_LABELS[kind]} has not been trained`);
+    return model;
+  };
+  return {
+    kind,
+    train(dataset, options) {
+      model = trainForestModel(dataset, {
+        treeCount: options?.treeCount,
+        maxDepth: options?.maxDepth,
+        minSamplesLeaf: options?.minSamplesLeaf,
+        maxFeatures: options?.maxFeatures,
+        maxNodes: options?.maxNodes,
+        bootstrap: options?.bootstrap,
+        seed: options?.seed,
+        ...(kind === 'decision-tree' ? { treeCount: 1, bootstrap: false } : {}),
+      });
+    },
+    // Growing trees is cheap, so an update regrows them with the same settings.
+    update(dataset) {
+      model = updateForestModel(requireModel(), dataset);
+    },
+    predict(input) {
+      return predictFromForest(requireModel(), input.values);
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind,
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        featureNames: m.featureNames,
+        pipelineId: m.pipelineId,
+        outOfBagAccuracy: m.outOfBagAccuracy,
+      };
+    },
+    serialize() {
+      return { kind, model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, kind).model;
+    },
+  };
+}
+
+function createNearestNeighborClassifier(): GestureClassifier {
+  let dataset: GestureDataset | null = null;
+  let trainedAt = 0;
+  const requireDataset = () => {
+    if (!dataset) throw new Error('Nearest-neighbor index is empty');
+    return dataset;
+  };
+  const index = (source: GestureDataset) => {
+    if (!source.entries.length) {
+      throw new Error('Cannot train model without any dataset entries');
+    }
+    // Raw samples and capture metadata are not needed for feature-space distances.
+    dataset = {
+      featureNames: source.featureNames,
+      entries: source.entries.map(({ samples, capture, ...entry }) => entry),
+      ...(source.pipelineId ? { pipelineId: source.pipelineId } : {}),
+    };
+    trainedAt = Date.now();
+  };
+  return {
+    kind: 'nearest-neighbor',
+    train: index,
+    // The index is the model, so an update is a cheap re-index.
+    update: index,
+    predict(input) {
+      return predictNearestNeighbor(requireDataset(), input.values);
+    },
+    summary() {
+      const d = requireDataset();
+      return {
+        kind: 'nearest-neighbor',
+        labels: Array.from(new Set(d.entries.map((e) => e.label))),
+        trainingSamples: d.entries.length,
+        trainedAt,
+        featureNames: d.featureNames,
+        pipelineId: d.pipelineId,
+      };
+    },
+    serialize() {
+      return { kind: 'nearest-neighbor', dataset: requireDataset(), trainedAt };
+    },
+    deserialize(payload) {
+      const parsed = expectKind(payload, 'nearest-neighbor');
+      dataset = parsed.dataset;
+      trainedAt = parsed.trainedAt;
+    },
+  };
+}
+
+function createDtwClassifier(): GestureClassifier {
+  let templates: DtwTemplates | null = null;
+  let trainedAt = 0;
+  let pipelineId = DEFAULT_PIPELINE_ID;
+  const requireTemplates = () => {
+    if (!templates) throw new Error('DTW templates are empty');
+    return templates;
+  };
+  const collectTemplates = (dataset: GestureDataset) => {
+    const pipeline = getFeaturePipeline(dataset.pipelineId ?? DEFAULT_PIPELINE_ID);
+    const next: DtwTemplates = {};
+    dataset.entries.forEach((entry) => {
+      if (!entry.samples || !entry.samples.length) return;
+      if (!next[entry.label]) next[entry.label] = [];
+      next[entry.label].push(preprocessSamples(pipeline, entry.samples));
+    });
+    if (!Object.keys(next).length) {
+      throw new Error('DTW needs entries with raw samples; record new examples.');
+    }
+    templates = next;
+    pipelineId = pipeline.id;
+    trainedAt = Date.now();
+  };
+  return {
+    kind: 'dtw',
+    train: collectTemplates,
+    update: collectTemplates,
+    predict(input) {
+      if (!input.samples || !input.samples.length) {
+        throw new Error('DTW prediction needs the raw sensor sequence');
+      }
+      const pipeline = getFeaturePipeline(pipelineId);
+      const seq = preprocessSamples(pipeline, input.samples);
+      // Pipelines without their own grid still warp at a uniform rate.
+      return predictDtw(requireTemplates(), seq, {
+        resample: {
+          rateHz: pipeline.resampleHz ?? DEFAULT_SAMPLE_RATE_HZ,
+          method: pipeline.resampleMethod,
+        },
+      });
+    },
+    summary() {
+      const t = requireTemplates();
+      return {
+        kind: 'dtw',
+        labels: Object.keys(t),
+        trainingSamples: Object.values(t).reduce((sum, seqs) => sum + seqs.length, 0),
+        trainedAt,
+        pipelineId,
+      };
+    },
+    serialize() {
+      return { kind: 'dtw', templates: requireTemplates(), trainedAt, pipelineId };
+    },
+    deserialize(payload) {
+      const parsed = expectKind(payload, 'dtw');
+      templates = parsed.templates;
+      trainedAt = parsed.trainedAt;
+      // Templates saved before pipelines were smoothed like the stats pipeline.
+      pipelineId = parsed.pipelineId ?? LEGACY_PIPELINE_ID;
+    },
+  };
+}
+
+/**
+ * One left-to-right HMM per label over the pipeline's preprocessed samples,
+ * put on a uniform grid like DTW. Baum-Welch has no cheap warm start, so an
+ * update refits with the model's own settings.
+ */
+function createHmmClassifier(): GestureClassifier {
+  let model: HmmModel | null = null;
+  const requireModel = () => {
+    if (!model) throw new Error('HMM has not been trained');
+    return model;
+  };
+  const fit = (dataset: GestureDataset, options?: ClassifierTrainOptions) => {
+    const pipeline = getFeaturePipeline(dataset.pipelineId ?? DEFAULT_PIPELINE_ID);
+    const sequences: HmmSequences = {};
+    dataset.entries.forEach((entry) => {
+      if (!entry.samples || !entry.samples.length) return;
+      if (!sequences[entry.label]) sequences[entry.label] = [];
+      sequences[entry.label].push(preprocessSamples(pipeline, entry.samples));
+    });
+    const fitted = trainHmmModel(
+      sequences,
+      { rateHz: pipeline.resampleHz ?? DEFAULT_SAMPLE_RATE_HZ, method: pipeline.resampleMethod },
+      {
+        hmmStates: options?.hmmStates ?? model?.states,
+        hmmIterations: options?.hmmIterations,
+        hmmScoring: options?.hmmScoring ?? model?.scoring,
+      }
+    );
+    model = { ...fitted, pipelineId: pipeline.id };
+  };
+  return {
+    kind: 'hmm',
+    train: fit,
+    update: fit,
+    predict(input) {
+      if (!input.samples || !input.samples.length) {
+        throw new Error('HMM prediction needs the raw sensor sequence');
+      }
+      const m = requireModel();
+      const pipeline = getFeaturePipeline(m.pipelineId ?? DEFAULT_PIPELINE_ID);
+      return predictFromHmm(m, preprocessSamples(pipeline, input.samples));
+    },
+    summary() {
+      const m = requireModel();
+      return {
+        kind: 'hmm',
+        labels: m.labels,
+        trainingSamples: m.trainingSamples,
+        trainedAt: m.trainedAt,
+        pipelineId: m.pipelineId,
+        hmm: { states: m.states, scoring: m.scoring },
+      };
+    },
+    serialize() {
+      return { kind: 'hmm', model: requireModel() };
+    },
+    deserialize(payload) {
+      model = expectKind(payload, 'hmm').model;
+    },
+  };
+}
+
+function createEnsembleClassifier(): GestureClassifier {
+  let members: GestureClassifier[] = [];
+  let method: EnsembleMethod = 'weighted-average';
+  let weights: number[] = [];
+  let validationAccuracy: number | undefined;
+  let heldOut: HeldOutPrediction[] = [];
+  let trainedAt = 0;
+  const requireMembers = () => {
+    if (!members.length) throw new Error('Ensemble has not been trained');
+    return members;
+  };
+  return {
+    kind: 'ensemble',
+    train(dataset, options) {
+      const { ensemble, ...memberOptions } = options ?? {};
+      // DTW only joins when there are raw sequences to build templates from.
+      const kinds = ENSEMBLE_MEMBERS.filter(
+        (kind) => kind !== 'dtw' || dataset.entries.some((entry) => entry.samples?.length)
+      );
+      const tuning = tuneEnsembleWeights(
+        dataset,
+        kinds.map((kind) => (train) => {
+          const member = trainClassifier(kind, train, memberOptions);
+          return (entry) =>
+            // DTW abstains on entries without raw samples; any other failure is a bug.
+            kind === 'dtw' && !entry.samples?.length
+              ? null
+              : member.predict({ values: entry.values, samples: entry.samples });
+        }),
+        { seed: memberOptions.seed, ...ensemble }
+      );
+      members = kinds.map((kind) => trainClassifier(kind, dataset, memberOptions));
+      method = tuning.method;
+      weights = tuning.weights;
+      validationAccuracy = Number.isNaN(tuning.accuracy) ? undefined : tuning.accuracy;
+      heldOut = tuning.heldOut;
+      trainedAt = Date.now();
+    },
+    heldOutPredictions: () => heldOut,
+    // Members adapt in place; the tuned weights carry over until the next full training.
+    update(dataset, options) {
+      const { ensemble, ...memberOptions } = options ?? {};
+      members = requireMembers().map((member) => {
+        const next = deserializeClassifier(member.serialize());
+        next.update(dataset, memberOptions);
+        return next;
+      });
+      trainedAt = Date.now();
+    },
+    predict(input) {
+      return fuseDistributions(
+        requireMembers().map((member) => {
+          // Sequence members abstain when only feature values are available.
+          if (member.kind === 'dtw' && !input.samples?.length) return null;
+          return member.predict(input);
+        }),
+        { method, weights }
+      );
+    },
+    summary() {
+      const summaries = requireMembers().map((member) => member.summary());
+      const primary = summaries.find((summary) => summary.featureNames) ?? summaries[0];
+      return {
+        kind: 'ensemble',
+        labels: Array.from(new Set(summaries.flatMap((summary) => summary.labels))),
+        trainingSamples: primary.trainingSamples,
+        trainedAt,
+        featureNames: primary.featureNames,
+        pipelineId: primary.pipelineId,
+        finalLoss: primary.finalLoss,
+        finalValidationLoss: primary.finalValidationLoss,
+        ensemble: {
+          members: summaries.map((summary) => summary.kind),
+          method,
+          weights,
+          validationAccuracy,
+        },
+      };
+    },
+    serialize() {
+      return {
+        kind: 'ensemble',
+        members: requireMembers().map((member) => member.serialize()),
+        method,
+        weights,
+        ...(validationAccuracy !== undefined ? { validationAccuracy } : {}),
+        trainedAt,
+      };
+    },
+    deserialize(payload) {
+      const parsed = expectKind(payload, 'ensemble');
+      members = parsed.members.map((member) => deserializeClassifier(member));
+      method = parsed.method;
+      weights = parsed.weights;
+      validationAccuracy = parsed.validationAccuracy;
+      trainedAt = parsed.trainedAt;
+    },
+  };
+}
+
+// Confirmed recordings folded into the thresholds before `updateClassifier`
+// recalibrates them from scratch instead of refreshing them again.
+const RECALIBRATE_AFTER_SAMPLES = 10;
+
+const CLASSIFIER_FACTORIES: Record<ClassifierKind, () => GestureClassifier> = {
+  softmax: createSoftmaxClassifier,
+  mlp: createMlpClassifier,
+  cnn: createCnnClassifier,
+  knn: createKnnClassifier,
+  'naive-bayes': createNaiveBayesClassifier,
+  lda: createLdaClassifier,
+  'decision-tree': () => createForestClassifier('decision-tree'),
+  'random-forest': () => createForestClassifier('random-forest'),
+  'nearest-neighbor': createNearestNeighborClassifier,
+  dtw: createDtwClassifier,
+  hmm: createHmmClassifier,
+  ensemble: createEnsembleClassifier,
+};
+
+export function isClassifierKind(value: string): value is ClassifierKind {
+  return (CLASSIFIER_KINDS as string[]).includes(value);
+}
+
+export function createClassifier(kind: ClassifierKind): GestureClassifier {
+  const factory = CLASSIFIER_FACTORIES[kind];
+  if (!factory) {
+    throw new Error(`Unknown classifier "${kind}"`);
+  }
+  return factory();
+}
+
+/** Applies the augmentation and label balancing requested in `options`. */
+function prepareTrainingData(
+  dataset: GestureDataset,
+  augment?: AugmentOptions,
+  balance?: BalanceOptions
+) {
+  const augmented = augment ? augmentDataset(dataset, augment) : dataset;
+  return balance ? balanceDataset(augmented, balance) : augmented;
+}
+
+export function trainClassifier(
+  kind: ClassifierKind,
+  dataset: GestureDataset,
+  options?: ClassifierTrainOptions
+): GestureClassifier {
+  const classifier = createClassifier(kind);
+  const { augment, balance, rejection, ...trainOptions } = options ?? {};
+  classifier.train(prepareTrainingData(dataset, augment, balance), trainOptions);
+  if (rejection) {
+    const heldOut = classifier.heldOutPredictions?.();
+    classifier.rejection = heldOut
+      ? rejectionFromHeldOut(dataset, heldOut, rejection)
+      : calibrateFolds(kind, dataset, { ...trainOptions, augment, balance }, rejection);
+  }
+  return classifier;
+}
+
+/** Fits open-set thresholds on models of `kind` trained per cross-validation fold. */
+function calibrateFolds(
+  kind: ClassifierKind,
+  dataset: GestureDataset,
+  options: Omit<ClassifierTrainOptions, 'rejection'>,
+  rejection: RejectionCalibrationOptions
+) {
+  return calibrateRejection(
+    dataset,
+    (train) => {
+      const fold = trainClassifier(kind, train, options);
+      return (entry) => fold.predict({ values: entry.values, samples: entry.samples });
+    },
+    rejection
+  );
+}
+
+/**
+ * Returns a copy of `classifier` updated with `dataset`, leaving the original
+ * untouched if the update fails. Open-set thresholds are refreshed rather
+ * than recalibrated (see `refreshRejection`): `confirmed` are the recordings
+ * the user just vouched for, and the limits loosen so they are accepted. Once
+ * enough confirmations have built up, the thresholds are recalibrated on the
+ * whole dataset instead.
+ */
+export function updateClassifier(
+  classifier: GestureClassifier,
+  dataset: GestureDataset,
+  options: ClassifierTrainOptions = {},
+  confirmed: GestureDatasetEntry[] = []
+): GestureClassifier {
+  const next = deserializeClassifier(serializeClassifier(classifier));
+  // Thresholds are refreshed below; recalibrating would refit the model per fold.
+  const { augment, balance, rejection, ...trainOptions } = options;
+  next.update(prepareTrainingData(dataset, augment, balance), trainOptions);
+  if (classifier.rejection) {
+    const refreshed = refreshRejection(
+      classifier.rejection,
+      dataset,
+      confirmed.map((entry) => ({
+        label: entry.label,
+        values: entry.values,
+        prediction: next.predict({ values: entry.values, samples: entry.samples }),
+      }))
+    );
+    next.rejection =
+      (refreshed.refreshedSamples ?? 0) >= RECALIBRATE_AFTER_SAMPLES
+        ? calibrateFolds(next.kind, dataset, { ...trainOptions, augment, balance }, rejection ?? {})
+        : refreshed;
+  }
+  return next;
+}
+
+/** Payload for export; includes the open-set thresholds when calibrated. */
+export function serializeClassifier(classifier: GestureClassifier): SerializedClassifier {
+  return {
+    ...classifier.serialize(),
+    ...(classifier.rejection ? { rejection: classifier.rejection } : {}),
+  };
+}
+
+/**
+ * Predicts and then decides whether the gesture is known. Models without
+ * calibrated thresholds fall back to a fixed confidence cut-off.
+ */
+export function classifyWithRejection(
+  classifier: GestureClassifier,
+  input: ClassifierInput
+): OpenSetPrediction {
+  return applyRejection(classifier.predict(input), input.values, classifier.rejection);
+}
+
+/**
+ * Restores a classifier from exported JSON. Bare `GestureModel` payloads from
+ * before classifiers were tagged with a kind load as softmax models.
+ */
+export function deserializeClassifier(raw: unknown): GestureClassifier {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Invalid model payload');
+  }
+  let payload: SerializedClassifier;
+  if ('kind' in raw) {
+    payload = raw as SerializedClassifier;
+  } else {
+    const legacy = raw as Partial<GestureModel>;
+    if (!legacy.featureNames || !legacy.labels || !legacy.weights) {
+      throw new Error('Invalid model payload');
+    }
+    payload = { kind: 'softmax', model: raw as GestureModel };
+  }
+  if (!isClassifierKind(payload.kind)) {
+    throw new Error(`Unknown classifier "${payload.kind}"`);
+  }
+  const classifier = createClassifier(payload.kind);
+  classifier.deserialize(payload);
+  if (payload.rejection) classifier.rejection = payload.rejection;
+  return classifier;
+}
+
+/**
+ * Train/test evaluation for any registered classifier. With `augment` or
+ * `balance`, only each training fold is augmented or rebalanced, so synthetic
+ * copies and repeats never reach the test set.
+ */
+export function evaluateClassifierOnDataset(
+  dataset: GestureDataset,
+  kind: ClassifierKind,
+  options: ClassifierTrainOptions & EvaluationOptions = {}
+): EvaluationResult {
+  const { testFraction, folds, leaveOneOut, ...trainOptions } = options;
+  return evaluateOnDataset(
+    dataset,
+    (train) => {
+      const classifier = trainClassifier(kind, train, trainOptions);
+      return (entry) =>
+        classifier.predict({ values: entry.values, samples: entry.samples });
+    },
+    { testFraction, folds, seed: options.seed, leaveOneOut }
+  );
+}
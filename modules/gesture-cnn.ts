@@ -0,0 +1,459 @@
+import {
+  classWeightsFor,
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  predictionFromProbabilities,
+  shuffleInPlace,
+  softmax,
+  stratifiedSplit,
+  trainingLabels,
+  warmStartLabels,
+  type GestureDataset,
+  type PredictionResult,
+  type SensorSample,
+  type SoftmaxTrainOptions,
+} from './gesture-ml';
+import { DEFAULT_PIPELINE_ID, getFeaturePipeline, preprocessSamples } from './gesture-features';
+import { initLayer, type MlpLayer } from './gesture-mlp';
+import { createOptimizer, learningRateAt } from './gesture-optim';
+import { resampleSamples } from './gesture-resample';
+
+/** Valid (unpadded) 1D convolution followed by ReLU and max-pooling by 2. */
+export type CnnConvLayer = {
+  kernelSize: number;
+  /** weights[filter][inputChannel * kernelSize + tap] */
+  weights: number[][];
+  biases: number[];
+};
+
+/** JSON-serializable 1D CNN over fixed-length accel/gyro windows. */
+export type CnnModel = {
+  labels: string[];
+  /** Frames every recording is stretched to before the first convolution. */
+  windowLength: number;
+  /** Per-axis normalization of the input window. */
+  channelMeans: number[];
+  channelStd: number[];
+  conv: CnnConvLayer[];
+  /** Dense hidden layer followed by the output layer. */
+  dense: MlpLayer[];
+  trainedAt: number;
+  trainingSamples: number;
+  lossHistory: number[];
+  pipelineId?: string;
+  validationLossHistory?: number[];
+  bestEpoch?: number;
+};
+
+export type CnnTrainOptions = SoftmaxTrainOptions & {
+  /** Filters per conv layer, e.g. [8, 16]; each layer halves the length. */
+  convFilters?: number[];
+  kernelSize?: number;
+  windowLength?: number;
+  /** Units in the dense layer between the convolutions and the output. */
+  denseUnits?: number;
+  /** Dropout rate on the dense hidden layer while training. */
+  dropout?: number;
+};
+
+const CNN_CHANNELS = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'] as const;
+
+/**
+ * Runs the model's feature pipeline preprocessing, then interpolates the
+ * recording onto `length` evenly spaced frames over its duration, so slow and
+ * fast versions of a gesture fill the same window. Returns channels × frames.
+ */
+function toWindow(samples: SensorSample[], pipelineId: string | undefined, length: number) {
+  const processed = preprocessSamples(
+    getFeaturePipeline(pipelineId ?? DEFAULT_PIPELINE_ID),
+    samples
+  );
+  const duration = processed.length
+    ? processed[processed.length - 1].t - processed[0].t
+    : 0;
+  const frames =
+    duration > 0 && length > 1
+      ? resampleSamples(processed, { rateHz: ((length - 1) * 1000) / duration })
+      : processed;
+  // Rounding can drop the last grid point; pad with the final frame.
+  return CNN_CHANNELS.map((axis) =>
+    Array.from({ length }, (_, i) => frames[Math.min(i, frames.length - 1)][axis])
+  );
+}
+
+function normalizeWindow(model: Pick<CnnModel, 'channelMeans' | 'channelStd'>, window: number[][]) {
+  return window.map((row, c) => row.map((v) => (v - model.channelMeans[c]) / model.channelStd[c]));
+}
+
+type ForwardPass = {
+  /** inputs[l] feeds conv layer l; the last entry is the final pooled map. */
+  inputs: number[][][];
+  /** Post-ReLU conv outputs before pooling. */
+  convOutputs: number[][][];
+  /** Index into the conv output each pooled value came from. */
+  poolIndex: number[][][];
+  flat: number[];
+  hidden: number[];
+  mask: number[] | null;
+  probs: number[];
+};
+
+function forward(
+  model: Pick<CnnModel, 'conv' | 'dense'>,
+  window: number[][],
+  dropout = 0,
+  random?: () => number
+): ForwardPass {
+  const inputs: number[][][] = [window];
+  const convOutputs: number[][][] = [];
+  const poolIndex: number[][][] = [];
+  model.conv.forEach((layer, l) => {
+    const x = inputs[l];
+    const K = layer.kernelSize;
+    const outLength = x[0].length - K + 1;
+    const y = layer.weights.map((w, f) => {
+      const row = new Array(outLength).fill(layer.biases[f]);
+      for (let c = 0; c < x.length; c++) {
+        const xc = x[c];
+        for (let k = 0; k < K; k++) {
+          const wk = w[c * K + k];
+          for (let t = 0; t < outLength; t++) row[t] += wk * xc[t + k];
+        }
+      }
+      return row.map((v: number) => Math.max(0, v));
+    });
+    const pooledLength = Math.floor(outLength / 2);
+    const idx = y.map((row) =>
+      Array.from({ length: pooledLength }, (_, i) => (row[2 * i + 1] > row[2 * i] ? 2 * i + 1 : 2 * i))
+    );
+    convOutputs.push(y);
+    poolIndex.push(idx);
+    inputs.push(idx.map((row, f) => row.map((t) => y[f][t])));
+  });
+  const flat = inputs[inputs.length - 1].flat();
+  const [hiddenLayer, outputLayer] = model.dense;
+  let hidden = hiddenLayer.weights.map((w, unit) => {
+    let sum = hiddenLayer.biases[unit];
+    for (let i = 0; i < flat.length; i++) sum += w[i] * flat[i];
+    return Math.max(0, sum);
+  });
+  let mask: number[] | null = null;
+  if (dropout > 0 && random) {
+    // Inverted dropout, as in the MLP.
+    mask = hidden.map(() => (random() < dropout ? 0 : 1 / (1 - dropout)));
+    hidden = hidden.map((value, idx) => value * mask![idx]);
+  }
+  const logits = outputLayer.weights.map((w, unit) => {
+    let sum = outputLayer.biases[unit];
+    for (let i = 0; i < hidden.length; i++) sum += w[i] * hidden[i];
+    return sum;
+  });
+  return { inputs, convOutputs, poolIndex, flat, hidden, mask, probs: softmax(logits) };
+}
+
+type Gradients = { conv: MlpLayer[]; dense: MlpLayer[] };
+
+function zeroGradients(model: Pick<CnnModel, 'conv' | 'dense'>): Gradients {
+  const zeros = (layer: MlpLayer) => ({
+    weights: layer.weights.map((w) => new Array(w.length).fill(0)),
+    biases: new Array(layer.biases.length).fill(0),
+  });
+  return { conv: model.conv.map(zeros), dense: model.dense.map(zeros) };
+}
+
+/** Accumulates the (class-weighted) cross-entropy gradient for one window into `grads`. */
+function backward(
+  model: Pick<CnnModel, 'conv' | 'dense'>,
+  pass: ForwardPass,
+  target: number,
+  sampleWeight: number,
+  grads: Gradients
+) {
+  const [hiddenLayer, outputLayer] = model.dense;
+  const dLogits = pass.probs.map((p, idx) => sampleWeight * (p - (idx === target ? 1 : 0)));
+  const dHidden = new Array(pass.hidden.length).fill(0);
+  dLogits.forEach((d, unit) => {
+    const w = outputLayer.weights[unit];
+    const g = grads.dense[1].weights[unit];
+    for (let i = 0; i < pass.hidden.length; i++) {
+      g[i] += d * pass.hidden[i];
+      dHidden[i] += d * w[i];
+    }
+    grads.dense[1].biases[unit] += d;
+  });
+  const dFlat = new Array(pass.flat.length).fill(0);
+  dHidden.forEach((d, unit) => {
+    // Dropped or inactive units pass no gradient.
+    const scale = pass.mask ? pass.mask[unit] : 1;
+    if (pass.hidden[unit] <= 0 || scale === 0) return;
+    const delta = d * scale;
+    const w = hiddenLayer.weights[unit];
+    const g = grads.dense[0].weights[unit];
+    for (let i = 0; i < pass.flat.length; i++) {
+      g[i] += delta * pass.flat[i];
+      dFlat[i] += delta * w[i];
+    }
+    grads.dense[0].biases[unit] += delta;
+  });
+
+  const last = pass.inputs[pass.inputs.length - 1];
+  const pooledLength = last[0]?.length ?? 0;
+  let dPooled = last.map((_, f) => dFlat.slice(f * pooledLength, (f + 1) * pooledLength));
+  for (let l = model.conv.length - 1; l >= 0; l--) {
+    const layer = model.conv[l];
+    const K = layer.kernelSize;
+    const x = pass.inputs[l];
+    const y = pass.convOutputs[l];
+    const dy = y.map((row) => new Array(row.length).fill(0));
+    pass.poolIndex[l].forEach((row, f) =>
+      row.forEach((t, i) => {
+        if (y[f][t] > 0) dy[f][t] = dPooled[f][i];
+      })
+    );
+    const dx = l > 0 ? x.map((row) => new Array(row.length).fill(0)) : null;
+    dy.forEach((row, f) => {
+      const w = layer.weights[f];
+      const g = grads.conv[l].weights[f];
+      for (let t = 0; t < row.length; t++) {
+        const d = row[t];
+        if (d === 0) continue;
+        grads.conv[l].biases[f] += d;
+        for (let c = 0; c < x.length; c++) {
+          for (let k = 0; k < K; k++) {
+            g[c * K + k] += d * x[c][t + k];
+            if (dx) dx[c][t + k] += d * w[c * K + k];
+          }
+        }
+      }
+    });
+    if (!dx) break;
+    dPooled = dx;
+  }
+}
+
+function meanCrossEntropy(
+  model: Pick<CnnModel, 'conv' | 'dense'>,
+  windows: number[][][],
+  targets: number[]
+) {
+  if (!windows.length) return 0;
+  const total = windows.reduce(
+    (sum, window, idx) => sum - Math.log(Math.max(forward(model, window).probs[targets[idx]], 1e-9)),
+    0
+  );
+  return total / windows.length;
+}
+
+function cloneLayers<T extends MlpLayer>(layers: T[]): T[] {
+  return layers.map((layer) => ({
+    ...layer,
+    weights: layer.weights.map((w) => w.slice()),
+    biases: layer.biases.slice(),
+  }));
+}
+
+/**
+ * Trains a small 1D CNN (conv → ReLU → max-pool per layer, then one dense
+ * hidden layer and a softmax output) on the raw samples of each entry,
+ * ignoring the extracted feature values. Entries without samples are
+ * skipped. Shares the optimizer, schedule, L2, mini-batch and early-stopping
+ * options with the MLP; a `warmStart` model keeps its architecture and
+ * input normalization.
+ */
+export function trainCnnModel(
+  dataset: GestureDataset,
+  options: CnnTrainOptions = {},
+  warmStart?: CnnModel
+): CnnModel {
+  const entries = dataset.entries.filter((entry) => entry.samples && entry.samples.length);
+  if (!entries.length) {
+    throw new Error('CNN needs entries with raw samples; record new examples.');
+  }
+  const epochs = options.epochs ?? 60;
+  const learningRate = options.learningRate ?? 0.05;
+  const l2 = options.l2 ?? 0;
+  const dropout = options.dropout ?? 0;
+  const windowLength = warmStart?.windowLength ?? options.windowLength ?? 64;
+  const convFilters = warmStart?.conv.map((layer) => layer.weights.length) ?? options.convFilters ?? [8, 16];
+  const kernelSize = warmStart?.conv[0]?.kernelSize ?? options.kernelSize ?? 5;
+  const denseUnits = warmStart?.dense[0].weights.length ?? options.denseUnits ?? 32;
+  const validationFraction = options.validationFraction ?? 0;
+  const patience = options.patience ?? 0;
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  const labels = warmStart ? warmStartLabels(warmStart.labels, entries) : trainingLabels(entries);
+  // Stored even for legacy datasets so predictions preprocess the same way.
+  const pipelineId = warmStart?.pipelineId ?? dataset.pipelineId ?? DEFAULT_PIPELINE_ID;
+  if (labels.length < 2) {
+    throw new Error('Need at least two labels to train the model');
+  }
+  if (!convFilters.length || convFilters.some((filters) => !(Number.isInteger(filters) && filters >= 1))) {
+    throw new Error('convFilters needs at least one layer with one or more filters');
+  }
+  if (!(Number.isInteger(kernelSize) && kernelSize >= 1)) {
+    throw new Error('kernelSize must be a positive integer');
+  }
+  if (!(Number.isInteger(denseUnits) && denseUnits >= 1)) {
+    throw new Error('denseUnits must be a positive integer');
+  }
+  if (!(dropout >= 0 && dropout < 1)) {
+    throw new Error('dropout must be in [0, 1)');
+  }
+  if (patience > 0 && validationFraction <= 0) {
+    throw new Error('Early stopping needs a validation split (validationFraction > 0)');
+  }
+  let length = windowLength;
+  convFilters.forEach(() => {
+    length = Math.floor((length - kernelSize + 1) / 2);
+  });
+  if (!(Number.isInteger(windowLength) && length >= 1)) {
+    throw new Error(
+      `windowLength ${windowLength} is too short for ${convFilters.length} conv layers with kernel ${kernelSize}`
+    );
+  }
+
+  const split =
+    validationFraction > 0
+      ? stratifiedSplit(entries, validationFraction, random)
+      : { train: entries.map((_, idx) => idx), test: [] as number[] };
+  const rawWindows = entries.map((entry) => toWindow(entry.samples!, pipelineId, windowLength));
+
+  // Warm starts keep the old normalization; changing it would invalidate the filters.
+  let channelMeans = warmStart?.channelMeans;
+  let channelStd = warmStart?.channelStd;
+  if (!channelMeans || !channelStd) {
+    const means = CNN_CHANNELS.map((_, c) => {
+      let sum = 0;
+      split.train.forEach((idx) => rawWindows[idx][c].forEach((v) => (sum += v)));
+      return sum / (split.train.length * windowLength);
+    });
+    channelMeans = means;
+    channelStd = CNN_CHANNELS.map((_, c) => {
+      let sum = 0;
+      split.train.forEach((idx) => rawWindows[idx][c].forEach((v) => (sum += (v - means[c]) ** 2)));
+      const std = Math.sqrt(sum / (split.train.length * windowLength));
+      return std > 1e-8 ? std : 1;
+    });
+  }
+  const scaling = { channelMeans, channelStd };
+  const windows = rawWindows.map((window) => normalizeWindow(scaling, window));
+  const targets = entries.map((entry) => labels.indexOf(entry.label));
+  const trainIdx = split.train;
+  const classWeights = classWeightsFor(
+    trainIdx.map((idx) => targets[idx]),
+    labels.length,
+    options.classWeighting
+  );
+  const validationWindows = split.test.map((idx) => windows[idx]);
+  const validationTargets = split.test.map((idx) => targets[idx]);
+
+  const conv: CnnConvLayer[] = [];
+  let channels: number = CNN_CHANNELS.length;
+  convFilters.forEach((filters) => {
+    conv.push({ kernelSize, ...initLayer(channels * kernelSize, filters, 'relu', random) });
+    channels = filters;
+  });
+  const dense = [
+    initLayer(channels * length, denseUnits, 'relu', random),
+    initLayer(denseUnits, labels.length, 'relu', random),
+  ];
+  if (warmStart) {
+    warmStart.conv.forEach((layer, l) => {
+      conv[l].weights = layer.weights.map((w) => w.slice());
+      conv[l].biases = layer.biases.slice();
+    });
+    // Output rows of labels new to the dataset keep their random init.
+    warmStart.dense.forEach((layer, l) => {
+      layer.weights.forEach((w, unit) => {
+        dense[l].weights[unit] = w.slice();
+        dense[l].biases[unit] = layer.biases[unit];
+      });
+    });
+  }
+  const net = { conv, dense };
+  const params = [...conv, ...dense].flatMap((layer) => [...layer.weights, layer.biases]);
+  const optimizer = createOptimizer(options);
+  const batchSize =
+    options.batchSize && options.batchSize > 0
+      ? Math.min(options.batchSize, trainIdx.length)
+      : trainIdx.length;
+
+  const lossHistory: number[] = [];
+  const validationLossHistory: number[] = [];
+  let best = { loss: Infinity, epoch: 0, conv, dense };
+  const order = trainIdx.slice();
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const rate = learningRateAt(learningRate, epoch, epochs, options);
+    if (batchSize < order.length) shuffleInPlace(order, random);
+    let loss = 0;
+
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize);
+      const grads = zeroGradients(net);
+      batch.forEach((idx) => {
+        const pass = forward(net, windows[idx], dropout, random);
+        const sampleWeight = classWeights[targets[idx]];
+        loss += -sampleWeight * Math.log(Math.max(pass.probs[targets[idx]], 1e-9));
+        backward(net, pass, targets[idx], sampleWeight, grads);
+      });
+      const layers = [...conv, ...dense];
+      const gradRows = [...grads.conv, ...grads.dense].flatMap((grad, l) => [
+        ...grad.weights.map((row, unit) =>
+          row.map((g, i) => g / batch.length + l2 * layers[l].weights[unit][i])
+        ),
+        grad.biases.map((g) => g / batch.length),
+      ]);
+      optimizer.step(params, gradRows, rate);
+    }
+
+    lossHistory.push(loss / order.length);
+
+    if (validationWindows.length) {
+      const validationLoss = meanCrossEntropy(net, validationWindows, validationTargets);
+      validationLossHistory.push(validationLoss);
+      if (validationLoss < best.loss) {
+        best = { loss: validationLoss, epoch, conv: cloneLayers(conv), dense: cloneLayers(dense) };
+      } else if (patience > 0 && epoch - best.epoch >= patience) {
+        break;
+      }
+    }
+  }
+
+  const useBest = patience > 0 && best.loss < Infinity;
+
+  return {
+    labels,
+    windowLength,
+    channelMeans,
+    channelStd,
+    conv: useBest ? best.conv : conv,
+    dense: useBest ? best.dense : dense,
+    trainedAt: Date.now(),
+    trainingSamples: trainIdx.length,
+    lossHistory,
+    pipelineId,
+    ...(validationLossHistory.length
+      ? { validationLossHistory, bestEpoch: best.epoch }
+      : {}),
+  };
+}
+
+/** Warm-started fine-tuning; the CNN counterpart of `updateMlpModel`. */
+export function updateCnnModel(
+  model: CnnModel,
+  dataset: GestureDataset,
+  options: CnnTrainOptions = {}
+): CnnModel {
+  return trainCnnModel(dataset, { epochs: 20, ...options }, model);
+}
+
+export function predictFromCnn(model: CnnModel, samples: SensorSample[]): PredictionResult {
+  if (!model.labels.length || !model.conv.length) {
+    throw new Error('Model is empty');
+  }
+  if (!samples.length) {
+    throw new Error('CNN prediction needs the raw sensor sequence');
+  }
+  const window = normalizeWindow(model, toWindow(samples, model.pipelineId, model.windowLength));
+  return predictionFromProbabilities(model.labels, forward(model, window).probs);
+}
@@ -0,0 +1,109 @@
+import type { PredictionResult, SensorSample } from './gesture-ml';
+import { toMotionFrame, type MotionFrame } from './gesture-fusion';
+import { resampleSamples, type ResampleOptions } from './gesture-resample';
+
+export type DtwTemplates = Record<string, SensorSample[][]>;
+
+export type DtwOptions = {
+  /** Put both sequences on the same time grid before warping. */
+  resample?: ResampleOptions;
+  /** Compare gravity-free, gravity-aligned motion instead of raw axes. */
+  frame?: MotionFrame;
+};
+
+function prepareSequence(seq: SensorSample[], options: DtwOptions) {
+  const resampled = options.resample ? resampleSamples(seq, options.resample) : seq;
+  return normalizeSequence(toMotionFrame(resampled, options.frame ?? 'device'));
+}
+
+const DTW_AXES = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'] as const;
+
+/** Z-score every axis so DTW compares shapes rather than absolute offsets. */
+export function normalizeSequence(seq: SensorSample[]): SensorSample[] {
+  if (!seq.length) return seq;
+  const stats: Record<string, { mean: number; std: number }> = {};
+  DTW_AXES.forEach((k) => {
+    const vals = seq.map((s) => s[k]);
+    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
+    const variance =
+      vals.map((v) => (v - mean) ** 2).reduce((a, b) => a + b, 0) /
+      Math.max(1, vals.length);
+    let std = Math.sqrt(variance);
+    if (std === 0) std = 1;
+    stats[k] = { mean, std };
+  });
+  return seq.map((s) => ({
+    t: s.t,
+    ax: (s.ax - stats.ax.mean) / stats.ax.std,
+    ay: (s.ay - stats.ay.mean) / stats.ay.std,
+    az: (s.az - stats.az.mean) / stats.az.std,
+    gx: (s.gx - stats.gx.mean) / stats.gx.std,
+    gy: (s.gy - stats.gy.mean) / stats.gy.std,
+    gz: (s.gz - stats.gz.mean) / stats.gz.std,
+  }));
+}
+
+function sampleDistance(a: SensorSample, b: SensorSample) {
+  let sum = 0;
+  DTW_AXES.forEach((k) => {
+    const d = (a[k] || 0) - (b[k] || 0);
+    sum += d * d;
+  });
+  return Math.sqrt(sum);
+}
+
+/**
+ * Dynamic time warping distance between two sequences, normalized by the
+ * combined length so short and long recordings stay comparable.
+ */
+export function dtwDistance(
+  seqA: SensorSample[],
+  seqB: SensorSample[],
+  options: DtwOptions = {}
+) {
+  const A = prepareSequence(seqA, options);
+  const B = prepareSequence(seqB, options);
+  const n = A.length;
+  const m = B.length;
+  if (n === 0 || m === 0) return Number.POSITIVE_INFINITY;
+  const dtw: number[][] = Array.from({ length: n + 1 }, () =>
+    new Array(m + 1).fill(Infinity)
+  );
+  dtw[0][0] = 0;
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const cost = sampleDistance(A[i - 1], B[j - 1]);
+      const minPrev = Math.min(dtw[i - 1][j], dtw[i][j - 1], dtw[i - 1][j - 1]);
+      dtw[i][j] = cost + minPrev;
+    }
+  }
+  return dtw[n][m] / (n + m);
+}
+
+/**
+ * Compares a sequence against every exemplar per label and turns the average
+ * distances into a confidence distribution with exp(-distance).
+ */
+export function predictDtw(
+  templates: DtwTemplates,
+  seq: SensorSample[],
+  options: DtwOptions = {}
+): PredictionResult {
+  const weights: { label: string; weight: number }[] = [];
+  Object.keys(templates).forEach((label) => {
+    const exemplars = templates[label];
+    if (!exemplars || !exemplars.length) return;
+    const dists = exemplars.map((ex) => dtwDistance(seq, ex, options));
+    const avg = dists.reduce((a, b) => a + b, 0) / dists.length;
+    weights.push({ label, weight: Math.exp(-avg) });
+  });
+  if (!weights.length) {
+    throw new Error('No valid DTW exemplars to compare against.');
+  }
+  const total = weights.reduce((sum, w) => sum + w.weight, 0) || 1;
+  const distribution = weights
+    .map((w) => ({ label: w.label, confidence: w.weight / total }))
+    .sort((a, b) => b.confidence - a.confidence);
+  const best = distribution[0];
+  return { label: best.label, confidence: best.confidence, distribution };
+}
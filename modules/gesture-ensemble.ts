@@ -0,0 +1,256 @@
+import {
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  predictionFromProbabilities,
+  stratifiedFolds,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type PredictionResult,
+} from './gesture-ml';
+import type { HeldOutPrediction } from './gesture-rejection';
+
+/**
+ * `weighted-average` mixes member distributions linearly; `product` multiplies
+ * them (product of experts), so one confident veto outweighs lukewarm support.
+ */
+export type EnsembleMethod = 'weighted-average' | 'product';
+
+export const ENSEMBLE_METHODS: EnsembleMethod[] = ['weighted-average', 'product'];
+
+export type EnsembleWeights = {
+  method: EnsembleMethod;
+  /** One non-negative weight per member, summing to 1. */
+  weights: number[];
+};
+
+export type EnsembleTuning = EnsembleWeights & {
+  /** Held-out accuracy of the fused prediction with these weights. */
+  accuracy: number;
+  /** Held-out accuracy of each member on its own. */
+  memberAccuracies: number[];
+  validationSamples: number;
+  /**
+   * Fused prediction for every real entry, from members that never trained on
+   * it and weights tuned on the other folds only. Rejection calibrates on
+   * these instead of refitting the ensemble per fold.
+   */
+  heldOut: HeldOutPrediction[];
+};
+
+/**
+ * Trains one member on a split. The predictor returns null when the member
+ * cannot score an entry (DTW without raw samples), which counts as abstaining.
+ */
+export type EnsembleMemberFit = (
+  train: GestureDataset
+) => (entry: GestureDatasetEntry) => PredictionResult | null;
+
+export type EnsembleTuneOptions = {
+  /** Cross-validation folds used to collect held-out member predictions. */
+  folds?: number;
+  seed?: number;
+  /** Grid resolution for the weight search (0.1 = tenths). */
+  step?: number;
+  /**
+   * Smallest weight any member may get (default 0.1), so the ensemble never
+   * collapses onto the one member that happens to tie on accuracy.
+   */
+  minWeight?: number;
+};
+
+// Keeps a member that gives a label zero probability from vetoing it outright.
+const MIN_PROBABILITY = 1e-6;
+
+/**
+ * Fuses member predictions into one distribution over every label any member
+ * knows. Members missing from `predictions` (null) are left out and the
+ * remaining weights renormalized.
+ */
+export function fuseDistributions(
+  predictions: (PredictionResult | null)[],
+  { method, weights }: EnsembleWeights
+): PredictionResult {
+  const present = predictions.flatMap((prediction, idx) =>
+    prediction && weights[idx] > 0 ? [{ prediction, weight: weights[idx] }] : []
+  );
+  if (!present.length) {
+    throw new Error('No ensemble member produced a prediction');
+  }
+  const total = present.reduce((sum, p) => sum + p.weight, 0);
+  const labels = Array.from(
+    new Set(present.flatMap(({ prediction }) => prediction.distribution.map((d) => d.label)))
+  );
+  const probabilityOf = (prediction: PredictionResult, label: string) =>
+    prediction.distribution.find((d) => d.label === label)?.confidence ?? 0;
+
+  let probs: number[];
+  if (method === 'product') {
+    const logs = labels.map((label) =>
+      present.reduce(
+        (sum, { prediction, weight }) =>
+          sum + (weight / total) * Math.log(Math.max(probabilityOf(prediction, label), MIN_PROBABILITY)),
+        0
+      )
+    );
+    const maxLog = Math.max(...logs);
+    const exps = logs.map((l) => Math.exp(l - maxLog));
+    const sum = exps.reduce((a, b) => a + b, 0);
+    probs = exps.map((e) => e / sum);
+  } else {
+    probs = labels.map((label) =>
+      present.reduce(
+        (sum, { prediction, weight }) => sum + (weight / total) * probabilityOf(prediction, label),
+        0
+      )
+    );
+    const sum = probs.reduce((a, b) => a + b, 0) || 1;
+    probs = probs.map((p) => p / sum);
+  }
+  return predictionFromProbabilities(labels, probs);
+}
+
+/**
+ * Every weight vector on the simplex with the given step and no weight below
+ * `minWeight`, e.g. [0.2, 0.3, 0.5]. A floor too high for the member count
+ * leaves only equal weights.
+ */
+function weightGrid(members: number, step: number, minWeight: number): number[][] {
+  const units = Math.max(1, Math.round(1 / step));
+  const minUnits = Math.min(Math.ceil(minWeight * units - 1e-9), Math.floor(units / members));
+  if (minUnits * members === units) return [new Array(members).fill(1 / members)];
+  const grid: number[][] = [];
+  const walk = (prefix: number[], left: number) => {
+    if (prefix.length === members - 1) {
+      if (left >= minUnits) grid.push([...prefix, left].map((u) => u / units));
+      return;
+    }
+    for (let u = minUnits; u <= left; u++) walk([...prefix, u], left - u);
+  };
+  walk([], units);
+  return grid;
+}
+
+function negativeLogLikelihood(prediction: PredictionResult, label: string) {
+  const p = prediction.distribution.find((d) => d.label === label)?.confidence ?? 0;
+  return -Math.log(Math.max(p, MIN_PROBABILITY));
+}
+
+type MemberRecord = {
+  entry: GestureDatasetEntry;
+  fold: number;
+  train: GestureDataset;
+  predictions: (PredictionResult | null)[];
+};
+
+/**
+ * Grid-searches the fusion method and weights for the best accuracy on
+ * `records`, breaking ties by log loss. Null when no weighting scores them all.
+ */
+function searchWeights(
+  records: MemberRecord[],
+  members: number,
+  options: EnsembleTuneOptions
+) {
+  let best: (EnsembleWeights & { accuracy: number; loss: number }) | null = null;
+  ENSEMBLE_METHODS.forEach((method) => {
+    weightGrid(members, options.step ?? 0.1, options.minWeight ?? 0.1).forEach((weights) => {
+      let correct = 0;
+      let loss = 0;
+      let scored = 0;
+      records.forEach(({ entry, predictions }) => {
+        if (!predictions.some((p, idx) => p && weights[idx] > 0)) return;
+        const fused = fuseDistributions(predictions, { method, weights });
+        if (fused.label === entry.label) correct += 1;
+        loss += negativeLogLikelihood(fused, entry.label);
+        scored += 1;
+      });
+      if (scored < records.length) return;
+      const accuracy = correct / records.length;
+      const meanLoss = loss / records.length;
+      if (!best || accuracy > best.accuracy || (accuracy === best.accuracy && meanLoss < best.loss)) {
+        best = { method, weights, accuracy, loss: meanLoss };
+      }
+    });
+  });
+  return best as (EnsembleWeights & { accuracy: number; loss: number }) | null;
+}
+
+/**
+ * Collects cross-validated predictions from every member on real
+ * (non-augmented) entries, then grid-searches the fusion method and member
+ * weights for the best held-out accuracy, breaking ties by log loss. Every
+ * member keeps at least `minWeight`. With too little data for two folds,
+ * members are weighted equally.
+ */
+export function tuneEnsembleWeights(
+  dataset: GestureDataset,
+  fits: EnsembleMemberFit[],
+  options: EnsembleTuneOptions = {}
+): EnsembleTuning {
+  const equal: EnsembleTuning = {
+    method: 'weighted-average',
+    weights: fits.map(() => 1 / fits.length),
+    accuracy: NaN,
+    memberAccuracies: fits.map(() => NaN),
+    validationSamples: 0,
+    heldOut: [],
+  };
+  const real = dataset.entries.filter((entry) => !entry.augmentedFrom);
+  const counts: Record<string, number> = {};
+  real.forEach((entry) => {
+    counts[entry.label] = (counts[entry.label] ?? 0) + 1;
+  });
+  const folds = Math.min(options.folds ?? 3, ...Object.values(counts));
+  if (fits.length < 2 || folds < 2) return equal;
+
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  const groups = stratifiedFolds(real, folds, random);
+  const records: MemberRecord[] = [];
+  groups.forEach((test, foldIdx) => {
+    const trainIds = new Set(
+      groups.filter((_, idx) => idx !== foldIdx).flat().map((idx) => real[idx].id)
+    );
+    const train: GestureDataset = {
+      ...dataset,
+      entries: dataset.entries.filter((entry) => trainIds.has(entry.augmentedFrom ?? entry.id)),
+    };
+    const predictors = fits.map((fit) => fit(train));
+    test.forEach((idx) => {
+      const entry = real[idx];
+      records.push({
+        entry,
+        fold: foldIdx,
+        train,
+        predictions: predictors.map((predict) => predict(entry)),
+      });
+    });
+  });
+
+  const best = searchWeights(records, fits.length, options);
+  if (!best) return equal;
+  const memberAccuracies = fits.map(
+    (_, member) =>
+      records.filter((r) => r.predictions[member]?.label === r.entry.label).length /
+      records.length
+  );
+  // Each fold is fused with weights tuned on the other folds, so the held-out
+  // predictions stay honest for calibration.
+  const heldOut: HeldOutPrediction[] = [];
+  groups.forEach((_, foldIdx) => {
+    const weights =
+      searchWeights(records.filter((r) => r.fold !== foldIdx), fits.length, options) ?? best;
+    records
+      .filter((r) => r.fold === foldIdx)
+      .forEach(({ entry, train, predictions }) => {
+        heldOut.push({ entry, train, prediction: fuseDistributions(predictions, weights) });
+      });
+  });
+  return {
+    method: best.method,
+    weights: best.weights,
+    accuracy: best.accuracy,
+    memberAccuracies,
+    validationSamples: records.length,
+    heldOut,
+  };
+}
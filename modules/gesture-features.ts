@@ -0,0 +1,195 @@
+import {
+  extractFeatureVector,
+  movingAverage,
+  sameFeatureLayout,
+  type FeatureBlock,
+  type FeatureExtraction,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type SensorSample,
+} from './gesture-ml';
+import { toMotionFrame, type MotionFrame } from './gesture-fusion';
+import { type ResampleMethod } from './gesture-resample';
+
+/**
+ * A named, versioned recipe for turning a recorded sensor sequence into a
+ * feature vector. Definitions are frozen once shipped: changing blocks or
+ * preprocessing means adding a new id so stored datasets and models keep
+ * rebuilding exactly the features they were trained on.
+ */
+export type FeaturePipeline = {
+  id: string;
+  name: string;
+  version: number;
+  description: string;
+  blocks: readonly FeatureBlock[];
+  /** Moving-average window applied before extraction; 1 disables smoothing. */
+  smoothingWindow: number;
+  /** Resample onto a uniform grid at this rate before extraction. */
+  resampleHz?: number;
+  /** Interpolation used when resampling; linear when omitted. */
+  resampleMethod?: ResampleMethod;
+  /** Axes features are computed on; `device` when omitted. */
+  frame?: MotionFrame;
+};
+
+export const FEATURE_PIPELINES: readonly FeaturePipeline[] = [
+  {
+    id: 'stats-v1',
+    name: 'stats',
+    version: 1,
+    description: 'Original per-axis time-domain stats, magnitudes, and timing.',
+    blocks: ['axis-stats', 'magnitude', 'timing'],
+    smoothingWindow: 3,
+  },
+  {
+    id: 'full-v2',
+    name: 'full',
+    version: 2,
+    description: 'Time-domain stats plus spectral, zero-crossing, correlation, and jerk blocks.',
+    blocks: [
+      'axis-stats',
+      'magnitude',
+      'timing',
+      'spectral',
+      'zero-crossing',
+      'correlation',
+      'jerk',
+    ],
+    smoothingWindow: 3,
+  },
+  {
+    id: 'uniform-v1',
+    name: 'uniform',
+    version: 1,
+    description: 'Full feature set on a 25 Hz grid, without rate-dependent timing features.',
+    blocks: ['axis-stats', 'magnitude', 'spectral', 'zero-crossing', 'correlation', 'jerk'],
+    smoothingWindow: 3,
+    resampleHz: 25,
+  },
+  {
+    id: 'uniform-cubic-v1',
+    name: 'uniform (cubic)',
+    version: 1,
+    description: 'Like uniform-v1, but resampled with cubic Hermite interpolation.',
+    blocks: ['axis-stats', 'magnitude', 'spectral', 'zero-crossing', 'correlation', 'jerk'],
+    smoothingWindow: 3,
+    resampleHz: 25,
+    resampleMethod: 'cubic',
+  },
+  {
+    id: 'world-v1',
+    name: 'world frame',
+    version: 1,
+    description:
+      'Gravity-free acceleration and rotation in a gravity-aligned frame, so grip and tilt do not matter.',
+    blocks: ['axis-stats', 'magnitude', 'spectral', 'zero-crossing', 'correlation', 'jerk'],
+    smoothingWindow: 3,
+    resampleHz: 25,
+    frame: 'world',
+  },
+];
+
+export const DEFAULT_PIPELINE_ID = 'full-v2';
+
+/** Pipeline assumed for datasets and models saved before pipelines had ids. */
+export const LEGACY_PIPELINE_ID = 'stats-v1';
+
+export function getFeaturePipeline(id: string): FeaturePipeline {
+  const pipeline = FEATURE_PIPELINES.find((p) => p.id === id);
+  if (!pipeline) {
+    throw new Error(`Unknown feature pipeline "${id}"`);
+  }
+  return pipeline;
+}
+
+export function pipelineFeatureNames(pipeline: FeaturePipeline): string[] {
+  return extractFeatureVector([], pipeline.blocks).featureNames;
+}
+
+/**
+ * Returns the stored pipeline id, or for legacy payloads without one, the
+ * registered pipeline whose layout matches `featureNames`.
+ */
+export function resolvePipelineId(
+  featureNames: string[],
+  pipelineId?: string
+): string {
+  if (pipelineId) return getFeaturePipeline(pipelineId).id;
+  const match = FEATURE_PIPELINES.find((pipeline) =>
+    sameFeatureLayout(pipelineFeatureNames(pipeline), featureNames)
+  );
+  if (!match) {
+    throw new Error('Feature layout does not match any known pipeline.');
+  }
+  return match.id;
+}
+
+/** Resampling, smoothing and sensor fusion shared by feature extraction and DTW. */
+export function preprocessSamples(
+  pipeline: FeaturePipeline,
+  samples: SensorSample[]
+): SensorSample[] {
+  const resample = pipeline.resampleHz
+    ? { rateHz: pipeline.resampleHz, method: pipeline.resampleMethod }
+    : undefined;
+  const smoothed = movingAverage(samples, pipeline.smoothingWindow, resample);
+  return toMotionFrame(smoothed, pipeline.frame ?? 'device');
+}
+
+export function runFeaturePipeline(
+  pipeline: FeaturePipeline,
+  samples: SensorSample[]
+): { samples: SensorSample[]; features: FeatureExtraction } {
+  const processed = preprocessSamples(pipeline, samples);
+  return {
+    samples: processed,
+    features: extractFeatureVector(processed, pipeline.blocks),
+  };
+}
+
+export type FeatureRebuildResult = {
+  dataset: GestureDataset;
+  rebuilt: number;
+  /** Ids of entries dropped because they had no raw samples to re-extract. */
+  dropped: string[];
+};
+
+/**
+ * Re-runs a feature pipeline over every entry that carries raw samples, so a
+ * dataset can move to another (or the current default) pipeline.
+ * Entries without samples are kept only when the layout did not change.
+ */
+export function rebuildDatasetFeatures(
+  dataset: GestureDataset,
+  pipelineId: string = dataset.pipelineId ?? DEFAULT_PIPELINE_ID
+): FeatureRebuildResult {
+  const pipeline = getFeaturePipeline(pipelineId);
+  const currentNames = pipelineFeatureNames(pipeline);
+  const keepLegacy = sameFeatureLayout(dataset.featureNames, currentNames);
+  const entries: GestureDatasetEntry[] = [];
+  const dropped: string[] = [];
+  let rebuilt = 0;
+
+  dataset.entries.forEach((entry) => {
+    if (!entry.samples || !entry.samples.length) {
+      if (keepLegacy) entries.push(entry);
+      else dropped.push(entry.id);
+      return;
+    }
+    const { features } = runFeaturePipeline(pipeline, entry.samples);
+    entries.push({
+      ...entry,
+      values: features.values,
+      sampleCount: features.sampleCount,
+      durationMs: features.durationMs,
+    });
+    rebuilt += 1;
+  });
+
+  return {
+    dataset: { featureNames: currentNames, entries, pipelineId: pipeline.id },
+    rebuilt,
+    dropped,
+  };
+}
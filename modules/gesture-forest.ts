@@ -0,0 +1,301 @@
+import {
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  predictionFromProbabilities,
+  sameFeatureLayout,
+  trainingLabels,
+  type GestureDataset,
+  type PredictionResult,
+} from './gesture-ml';
+
+/**
+ * CART tree as parallel node arrays. A node with `feature[i] === -1` is a
+ * leaf and `left[i]` indexes its class distribution in `leaves`; otherwise
+ * values `<= threshold[i]` go to node `left[i]`, the rest to `right[i]`.
+ */
+export type CartTree = {
+  feature: number[];
+  threshold: number[];
+  left: number[];
+  right: number[];
+  /** Class probabilities per leaf, in model label order. */
+  leaves: number[][];
+};
+
+/** A single tree is a forest of one, trained on every entry and feature. */
+export type ForestModel = {
+  labels: string[];
+  featureNames: string[];
+  trees: CartTree[];
+  maxDepth: number;
+  minSamplesLeaf: number;
+  /** Features tried per split; equals the feature count for a single tree. */
+  maxFeatures: number;
+  maxNodes: number;
+  bootstrap: boolean;
+  seed: number;
+  /** Accuracy on recordings left out of each tree's bootstrap sample. */
+  outOfBagAccuracy?: number;
+  trainedAt: number;
+  trainingSamples: number;
+  pipelineId?: string;
+};
+
+export type ForestTrainOptions = {
+  /** Trees in the forest; 1 without bootstrap gives a plain CART tree. */
+  treeCount?: number;
+  maxDepth?: number;
+  minSamplesLeaf?: number;
+  /** Features tried per split; default √(feature count) for forests. */
+  maxFeatures?: number;
+  /** Upper bound on nodes per tree, leaves included. */
+  maxNodes?: number;
+  /** Resample the training entries with replacement for every tree. */
+  bootstrap?: boolean;
+  seed?: number;
+};
+
+type Split = { feature: number; threshold: number; left: number[]; right: number[] };
+
+const round = (p: number) => Math.round(p * 1000) / 1000;
+
+function gini(counts: number[], total: number) {
+  if (!total) return 0;
+  let sum = 0;
+  counts.forEach((c) => {
+    sum += (c / total) ** 2;
+  });
+  return 1 - sum;
+}
+
+function bestSplit(
+  rows: number[][],
+  targets: number[],
+  idx: number[],
+  classCount: number,
+  features: number[],
+  minSamplesLeaf: number
+): Split | null {
+  const total = idx.length;
+  const parentCounts = new Array(classCount).fill(0);
+  idx.forEach((i) => (parentCounts[targets[i]] += 1));
+  let bestScore = gini(parentCounts, total) - 1e-12;
+  // feature -1 until a split beats the parent's impurity.
+  const best = { feature: -1, threshold: 0 };
+
+  features.forEach((feature) => {
+    const sorted = [...idx].sort((a, b) => rows[a][feature] - rows[b][feature]);
+    const leftCounts = new Array(classCount).fill(0);
+    const rightCounts = [...parentCounts];
+    for (let pos = 0; pos < total - 1; pos++) {
+      const cls = targets[sorted[pos]];
+      leftCounts[cls] += 1;
+      rightCounts[cls] -= 1;
+      const nLeft = pos + 1;
+      const nRight = total - nLeft;
+      if (nLeft < minSamplesLeaf || nRight < minSamplesLeaf) continue;
+      const value = rows[sorted[pos]][feature];
+      const next = rows[sorted[pos + 1]][feature];
+      if (value === next) continue;
+      const score = (nLeft * gini(leftCounts, nLeft) + nRight * gini(rightCounts, nRight)) / total;
+      if (score < bestScore) {
+        bestScore = score;
+        best.feature = feature;
+        best.threshold = (value + next) / 2;
+      }
+    }
+  });
+
+  if (best.feature < 0) return null;
+  const { feature, threshold } = best;
+  return {
+    feature,
+    threshold,
+    left: idx.filter((i) => rows[i][feature] <= threshold),
+    right: idx.filter((i) => rows[i][feature] > threshold),
+  };
+}
+
+function growTree(
+  rows: number[][],
+  targets: number[],
+  sample: number[],
+  classCount: number,
+  options: Required<Pick<ForestModel, 'maxDepth' | 'minSamplesLeaf' | 'maxFeatures' | 'maxNodes'>>,
+  random: () => number
+): CartTree {
+  const tree: CartTree = { feature: [], threshold: [], left: [], right: [], leaves: [] };
+  const featureCount = rows[0]?.length ?? 0;
+  // Nodes promised to right siblings that are not built yet.
+  let reserved = 0;
+
+  const pickFeatures = () => {
+    const all = Array.from({ length: featureCount }, (_, f) => f);
+    for (let i = 0; i < Math.min(options.maxFeatures, featureCount); i++) {
+      const j = i + Math.floor(random() * (featureCount - i));
+      [all[i], all[j]] = [all[j], all[i]];
+    }
+    return all.slice(0, options.maxFeatures);
+  };
+
+  const grow = (idx: number[], depth: number): number => {
+    const node = tree.feature.length;
+    tree.feature.push(-1);
+    tree.threshold.push(0);
+    tree.left.push(-1);
+    tree.right.push(-1);
+    const counts = new Array(classCount).fill(0);
+    idx.forEach((i) => (counts[targets[i]] += 1));
+    const canSplit =
+      depth < options.maxDepth &&
+      idx.length >= 2 * options.minSamplesLeaf &&
+      counts.filter((c) => c > 0).length > 1 &&
+      tree.feature.length + reserved + 2 <= options.maxNodes;
+    const split = canSplit
+      ? bestSplit(rows, targets, idx, classCount, pickFeatures(), options.minSamplesLeaf)
+      : null;
+    if (!split) {
+      tree.left[node] = tree.leaves.length;
+      tree.leaves.push(counts.map((c) => round(c / idx.length)));
+      return node;
+    }
+    tree.feature[node] = split.feature;
+    tree.threshold[node] = split.threshold;
+    reserved += 1;
+    tree.left[node] = grow(split.left, depth + 1);
+    reserved -= 1;
+    tree.right[node] = grow(split.right, depth + 1);
+    return node;
+  };
+
+  grow(sample, 0);
+  return tree;
+}
+
+function leafFor(tree: CartTree, values: number[]) {
+  let node = 0;
+  while (tree.feature[node] !== -1) {
+    node = values[tree.feature[node]] <= tree.threshold[node] ? tree.left[node] : tree.right[node];
+  }
+  return tree.leaves[tree.left[node]];
+}
+
+/**
+ * Trains CART trees on raw feature values; splits only compare values within
+ * one feature, so no scaling is needed. With `bootstrap`, each tree sees a
+ * seeded resample of the entries and out-of-bag accuracy is measured on real
+ * recordings whose source (and augmented copies) a tree never saw.
+ */
+export function trainForestModel(
+  dataset: GestureDataset,
+  options: ForestTrainOptions = {}
+): ForestModel {
+  const { entries, featureNames } = dataset;
+  if (!entries.length) {
+    throw new Error('Cannot train model without any dataset entries');
+  }
+  const treeCount = options.treeCount ?? 50;
+  const bootstrap = options.bootstrap ?? treeCount > 1;
+  const maxDepth = options.maxDepth ?? 8;
+  const minSamplesLeaf = options.minSamplesLeaf ?? 1;
+  const maxNodes = options.maxNodes ?? 255;
+  const maxFeatures =
+    options.maxFeatures ??
+    (treeCount > 1 ? Math.max(1, Math.round(Math.sqrt(featureNames.length))) : featureNames.length);
+  const seed = options.seed ?? DEFAULT_EVALUATION_SEED;
+  if (!Number.isInteger(treeCount) || treeCount < 1) {
+    throw new Error('treeCount must be a positive integer');
+  }
+  if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+    throw new Error('maxDepth must be a positive integer');
+  }
+  if (!Number.isInteger(minSamplesLeaf) || minSamplesLeaf < 1) {
+    throw new Error('minSamplesLeaf must be a positive integer');
+  }
+  if (!Number.isInteger(maxFeatures) || maxFeatures < 1) {
+    throw new Error('maxFeatures must be a positive integer');
+  }
+  if (!Number.isInteger(maxNodes) || maxNodes < 1) {
+    throw new Error('maxNodes must be a positive integer');
+  }
+
+  const labels = trainingLabels(entries);
+  const rows = entries.map((entry) => entry.values);
+  const targets = entries.map((entry) => labels.indexOf(entry.label));
+  const source = entries.map((entry) => entry.augmentedFrom ?? entry.id);
+  const random = createSeededRandom(seed);
+  const limits = { maxDepth, minSamplesLeaf, maxFeatures, maxNodes };
+  const all = entries.map((_, idx) => idx);
+
+  const trees: CartTree[] = [];
+  // Summed out-of-bag votes per real entry.
+  const oobVotes = new Map<number, number[]>();
+  for (let t = 0; t < treeCount; t++) {
+    const sample = bootstrap
+      ? all.map(() => Math.floor(random() * entries.length))
+      : all;
+    const tree = growTree(rows, targets, sample, labels.length, limits, random);
+    trees.push(tree);
+    if (!bootstrap) continue;
+    const seen = new Set(sample.map((idx) => source[idx]));
+    entries.forEach((entry, idx) => {
+      if (entry.augmentedFrom || seen.has(source[idx])) return;
+      const votes = oobVotes.get(idx) ?? new Array(labels.length).fill(0);
+      leafFor(tree, entry.values).forEach((p, cls) => (votes[cls] += p));
+      oobVotes.set(idx, votes);
+    });
+  }
+
+  let outOfBagAccuracy: number | undefined;
+  if (oobVotes.size) {
+    let correct = 0;
+    oobVotes.forEach((votes, idx) => {
+      if (votes.indexOf(Math.max(...votes)) === targets[idx]) correct += 1;
+    });
+    outOfBagAccuracy = correct / oobVotes.size;
+  }
+
+  return {
+    labels,
+    featureNames,
+    trees,
+    maxDepth,
+    minSamplesLeaf,
+    maxFeatures,
+    maxNodes,
+    bootstrap,
+    seed,
+    ...(outOfBagAccuracy !== undefined ? { outOfBagAccuracy } : {}),
+    trainedAt: Date.now(),
+    trainingSamples: entries.length,
+    ...(dataset.pipelineId ? { pipelineId: dataset.pipelineId } : {}),
+  };
+}
+
+/** Regrows the trees on an updated dataset with the model's own settings. */
+export function updateForestModel(model: ForestModel, dataset: GestureDataset): ForestModel {
+  if (!sameFeatureLayout(model.featureNames, dataset.featureNames)) {
+    throw new Error('Model feature layout does not match the dataset; retrain from scratch.');
+  }
+  return trainForestModel(dataset, {
+    treeCount: model.trees.length,
+    maxDepth: model.maxDepth,
+    minSamplesLeaf: model.minSamplesLeaf,
+    maxFeatures: model.maxFeatures,
+    maxNodes: model.maxNodes,
+    bootstrap: model.bootstrap,
+    seed: model.seed,
+  });
+}
+
+/** Averages the leaf distributions the input lands in across all trees. */
+export function predictFromForest(model: ForestModel, values: number[]): PredictionResult {
+  if (!model.trees.length) {
+    throw new Error('Model is empty');
+  }
+  const probs = new Array(model.labels.length).fill(0);
+  model.trees.forEach((tree) => {
+    leafFor(tree, values).forEach((p, cls) => (probs[cls] += p / model.trees.length));
+  });
+  return predictionFromProbabilities(model.labels, probs);
+}
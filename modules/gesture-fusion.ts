@@ -0,0 +1,148 @@
+import type { SensorSample } from './gesture-ml';
+
+type Vec3 = [number, number, number];
+
+/**
+ * `device` keeps raw sensor axes; `world` re-expresses gravity-free
+ * acceleration and rotation rate in a gravity-aligned frame.
+ */
+export type MotionFrame = 'device' | 'world';
+
+export const MOTION_FRAMES: MotionFrame[] = ['device', 'world'];
+
+export type FusionOptions = {
+  /**
+   * Complementary filter time constant: how long the gyro-propagated gravity
+   * estimate is trusted before the accelerometer pulls it back.
+   */
+  timeConstantMs?: number;
+};
+
+export type FusionResult = {
+  /** Gravity estimate per sample, in device axes. */
+  gravity: Vec3[];
+  /** Acceleration with gravity removed, still in device axes. */
+  linear: SensorSample[];
+  /**
+   * Linear acceleration and rotation rate projected on a frame whose z axis
+   * follows gravity and whose x axis is the device x axis at the start of the
+   * recording, carried along by the gyro. Holding the phone tilted or upside
+   * down gives the same values.
+   */
+  world: SensorSample[];
+};
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+];
+
+const scale = (a: Vec3, k: number): Vec3 => [a[0] * k, a[1] * k, a[2] * k];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+
+function normalize(a: Vec3): Vec3 | null {
+  const norm = Math.sqrt(dot(a, a));
+  return norm > 1e-9 ? scale(a, 1 / norm) : null;
+}
+
+/**
+ * Propagates a world-fixed vector expressed in device axes through one gyro
+ * step: the device turns by `omega * dt`, so the vector turns the other way.
+ */
+function rotateByGyro(v: Vec3, omega: Vec3, dt: number): Vec3 {
+  const rate = Math.sqrt(dot(omega, omega));
+  const angle = -rate * dt;
+  if (rate < 1e-9 || angle === 0) return v;
+  const axis = scale(omega, 1 / rate);
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const k = dot(axis, v) * (1 - cos);
+  const c = cross(axis, v);
+  // Rodrigues' rotation formula.
+  return [
+    v[0] * cos + c[0] * sin + axis[0] * k,
+    v[1] * cos + c[1] * sin + axis[1] * k,
+    v[2] * cos + c[2] * sin + axis[2] * k,
+  ];
+}
+
+/** Component of `v` orthogonal to unit vector `n`, normalized. */
+function horizontal(v: Vec3, n: Vec3) {
+  return normalize(sub(v, scale(n, dot(v, n))));
+}
+
+/**
+ * Complementary-filter sensor fusion: gravity is tracked by rotating the
+ * previous estimate with the gyro and blending in the accelerometer, then
+ * subtracted to get linear acceleration. Only the gravity direction is used,
+ * so the result does not depend on the accelerometer's sign convention.
+ * Accelerometer values are in g and gyro values in rad/s, as reported by
+ * expo-sensors.
+ */
+export function fuseOrientation(
+  samples: SensorSample[],
+  options: FusionOptions = {}
+): FusionResult {
+  const timeConstant = (options.timeConstantMs ?? 1000) / 1000;
+  const gravity: Vec3[] = [];
+  const linear: SensorSample[] = [];
+  const world: SensorSample[] = [];
+  if (!samples.length) return { gravity, linear, world };
+
+  let g: Vec3 = [samples[0].ax, samples[0].ay, samples[0].az];
+  let heading: Vec3 = [1, 0, 0];
+
+  samples.forEach((s, idx) => {
+    const accel: Vec3 = [s.ax, s.ay, s.az];
+    const omega: Vec3 = [s.gx, s.gy, s.gz];
+    const dt = idx > 0 ? Math.max(0, (s.t - samples[idx - 1].t) / 1000) : 0;
+    if (dt > 0) {
+      const alpha = timeConstant / (timeConstant + dt);
+      const predicted = rotateByGyro(g, omega, dt);
+      g = [
+        alpha * predicted[0] + (1 - alpha) * accel[0],
+        alpha * predicted[1] + (1 - alpha) * accel[1],
+        alpha * predicted[2] + (1 - alpha) * accel[2],
+      ];
+      heading = rotateByGyro(heading, omega, dt);
+    }
+    gravity.push(g);
+
+    const lin = sub(accel, g);
+    linear.push({ t: s.t, ax: lin[0], ay: lin[1], az: lin[2], gx: s.gx, gy: s.gy, gz: s.gz });
+
+    const up = normalize(g);
+    if (!up) {
+      world.push(linear[linear.length - 1]);
+      return;
+    }
+    // Keep the heading reference horizontal; fall back to device y if x is vertical.
+    const east = horizontal(heading, up) ?? horizontal([0, 1, 0], up) ?? [1, 0, 0];
+    heading = east;
+    const north = cross(up, east);
+    world.push({
+      t: s.t,
+      ax: dot(lin, east),
+      ay: dot(lin, north),
+      az: dot(lin, up),
+      gx: dot(omega, east),
+      gy: dot(omega, north),
+      gz: dot(omega, up),
+    });
+  });
+
+  return { gravity, linear, world };
+}
+
+/** Returns the sequence in the requested frame. */
+export function toMotionFrame(
+  samples: SensorSample[],
+  frame: MotionFrame,
+  options?: FusionOptions
+): SensorSample[] {
+  return frame === 'world' ? fuseOrientation(samples, options).world : samples;
+}
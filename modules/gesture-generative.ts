@@ -0,0 +1,220 @@
+import {
+  computeFeatureScaling,
+  invertMatrix,
+  predictionFromProbabilities,
+  softmax,
+  trainingLabels,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type PredictionResult,
+} from './gesture-ml';
+
+/** Gaussian Naive Bayes over z-scored features, shaped like `GestureModel`. */
+export type NaiveBayesModel = {
+  labels: string[];
+  featureNames: string[];
+  featureMeans: number[];
+  featureStd: number[];
+  /** Log prior per label. */
+  logPriors: number[];
+  /** classMeans[label][feature], in z-scored units. */
+  classMeans: number[][];
+  /** Smoothed per-class variances, in z-scored units. */
+  classVariances: number[][];
+  varianceSmoothing: number;
+  trainedAt: number;
+  trainingSamples: number;
+  pipelineId?: string;
+};
+
+/** Linear discriminant analysis with a shrunk pooled covariance. */
+export type LdaModel = {
+  labels: string[];
+  featureNames: string[];
+  featureMeans: number[];
+  featureStd: number[];
+  /** coefficients[label][feature]: Σ⁻¹ μ for each class. */
+  coefficients: number[][];
+  intercepts: number[];
+  /** Weight of the scaled identity blended into the covariance, 0–1. */
+  shrinkage: number;
+  trainedAt: number;
+  trainingSamples: number;
+  pipelineId?: string;
+};
+
+export type GenerativeTrainOptions = {
+  /**
+   * Naive Bayes: variance added to every class/feature pair (features are
+   * z-scored, so 0.01 is 1% of the overall spread). Keeps features that are
+   * constant within a class from dominating.
+   */
+  varianceSmoothing?: number;
+  /** LDA: fixed shrinkage in [0, 1]; unset picks it with Ledoit-Wolf. */
+  shrinkage?: number;
+};
+
+/** Shared preamble: labels, z-scaling and per-class rows in scaled units. */
+function prepare(dataset: GestureDataset) {
+  const { entries, featureNames } = dataset;
+  if (!entries.length) {
+    throw new Error('Cannot train model without any dataset entries');
+  }
+  const labels = trainingLabels(entries);
+  if (labels.length < 2) {
+    throw new Error('Need at least two labels to train the model');
+  }
+  const { featureMeans, featureStd } = computeFeatureScaling(
+    entries.map((entry) => entry.values),
+    featureNames.length
+  );
+  const scaleRow = (entry: GestureDatasetEntry) =>
+    entry.values.map((value, idx) => (value - featureMeans[idx]) / featureStd[idx]);
+  const rowsByLabel = labels.map((label) =>
+    entries.filter((entry) => entry.label === label).map(scaleRow)
+  );
+  const classMeans = rowsByLabel.map((rows) =>
+    featureNames.map((_, f) => rows.reduce((sum, row) => sum + row[f], 0) / rows.length)
+  );
+  const logPriors = rowsByLabel.map((rows) => Math.log(rows.length / entries.length));
+  return { labels, featureMeans, featureStd, rowsByLabel, classMeans, logPriors };
+}
+
+export function trainNaiveBayesModel(
+  dataset: GestureDataset,
+  options: GenerativeTrainOptions = {}
+): NaiveBayesModel {
+  const varianceSmoothing = options.varianceSmoothing ?? 0.01;
+  if (!(varianceSmoothing > 0)) {
+    throw new Error('varianceSmoothing must be positive');
+  }
+  const { labels, featureMeans, featureStd, rowsByLabel, classMeans, logPriors } =
+    prepare(dataset);
+  const classVariances = rowsByLabel.map((rows, c) =>
+    classMeans[c].map(
+      (mean, f) =>
+        rows.reduce((sum, row) => sum + (row[f] - mean) ** 2, 0) / rows.length +
+        varianceSmoothing
+    )
+  );
+  return {
+    labels,
+    featureNames: dataset.featureNames,
+    featureMeans,
+    featureStd,
+    logPriors,
+    classMeans,
+    classVariances,
+    varianceSmoothing,
+    trainedAt: Date.now(),
+    trainingSamples: dataset.entries.length,
+    ...(dataset.pipelineId ? { pipelineId: dataset.pipelineId } : {}),
+  };
+}
+
+export function predictFromNaiveBayes(
+  model: NaiveBayesModel,
+  values: number[]
+): PredictionResult {
+  const { featureMeans, featureStd, labels } = model;
+  if (!labels.length) {
+    throw new Error('Model is empty');
+  }
+  const x = values.map((value, idx) => (value - featureMeans[idx]) / featureStd[idx]);
+  const logPosteriors = labels.map((_, c) =>
+    x.reduce((sum, value, f) => {
+      const variance = model.classVariances[c][f];
+      const diff = value - model.classMeans[c][f];
+      return sum - 0.5 * (Math.log(2 * Math.PI * variance) + (diff * diff) / variance);
+    }, model.logPriors[c])
+  );
+  return predictionFromProbabilities(labels, softmax(logPosteriors));
+}
+
+/**
+ * Ledoit-Wolf shrinkage intensity towards a scaled identity, from the
+ * class-centered rows and their (biased) pooled covariance.
+ */
+function ledoitWolfShrinkage(centered: number[][], cov: number[][], mu: number) {
+  const n = centered.length;
+  const d = cov.length;
+  let distance = 0;
+  for (let i = 0; i < d; i++) {
+    for (let j = 0; j < d; j++) distance += (cov[i][j] - (i === j ? mu : 0)) ** 2;
+  }
+  if (distance === 0) return 0;
+  let spread = 0;
+  centered.forEach((row) => {
+    for (let i = 0; i < d; i++) {
+      for (let j = 0; j < d; j++) spread += (row[i] * row[j] - cov[i][j]) ** 2;
+    }
+  });
+  return Math.min(1, spread / (n * n) / distance);
+}
+
+/**
+ * Closed-form LDA: class means in z-scored space, one pooled within-class
+ * covariance blended with the identity (so it stays invertible with fewer
+ * samples than features), and a linear discriminant per class.
+ */
+export function trainLdaModel(
+  dataset: GestureDataset,
+  options: GenerativeTrainOptions = {}
+): LdaModel {
+  if (options.shrinkage !== undefined && !(options.shrinkage >= 0 && options.shrinkage <= 1)) {
+    throw new Error('shrinkage must be between 0 and 1');
+  }
+  const { labels, featureMeans, featureStd, rowsByLabel, classMeans, logPriors } =
+    prepare(dataset);
+  const d = dataset.featureNames.length;
+  const centered = rowsByLabel.flatMap((rows, c) =>
+    rows.map((row) => row.map((value, f) => value - classMeans[c][f]))
+  );
+  const cov = Array.from({ length: d }, () => new Array(d).fill(0));
+  centered.forEach((row) => {
+    for (let i = 0; i < d; i++) {
+      for (let j = i; j < d; j++) cov[i][j] += (row[i] * row[j]) / centered.length;
+    }
+  });
+  for (let i = 0; i < d; i++) {
+    for (let j = 0; j < i; j++) cov[i][j] = cov[j][i];
+  }
+  const mu = cov.reduce((sum, row, i) => sum + row[i], 0) / (d || 1);
+  const shrinkage = options.shrinkage ?? ledoitWolfShrinkage(centered, cov, mu);
+  // A fully degenerate covariance (e.g. one sample per class) still needs a floor.
+  const target = mu > 0 ? mu : 1;
+  const shrunk = cov.map((row, i) =>
+    row.map((value, j) => (1 - shrinkage) * value + (i === j ? shrinkage * target + 1e-6 : 0))
+  );
+  const precision = invertMatrix(shrunk);
+  const coefficients = classMeans.map((mean) =>
+    precision.map((row) => row.reduce((sum, p, j) => sum + p * mean[j], 0))
+  );
+  const intercepts = coefficients.map(
+    (w, c) => -0.5 * w.reduce((sum, value, f) => sum + value * classMeans[c][f], 0) + logPriors[c]
+  );
+  return {
+    labels,
+    featureNames: dataset.featureNames,
+    featureMeans,
+    featureStd,
+    coefficients,
+    intercepts,
+    shrinkage,
+    trainedAt: Date.now(),
+    trainingSamples: dataset.entries.length,
+    ...(dataset.pipelineId ? { pipelineId: dataset.pipelineId } : {}),
+  };
+}
+
+export function predictFromLda(model: LdaModel, values: number[]): PredictionResult {
+  const { featureMeans, featureStd, labels } = model;
+  if (!labels.length) {
+    throw new Error('Model is empty');
+  }
+  const x = values.map((value, idx) => (value - featureMeans[idx]) / featureStd[idx]);
+  const scores = model.coefficients.map((w, c) =>
+    w.reduce((sum, value, f) => sum + value * x[f], model.intercepts[c])
+  );
+  return predictionFromProbabilities(labels, softmax(scores));
+}
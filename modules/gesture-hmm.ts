@@ -0,0 +1,324 @@
+import {
+  predictionFromProbabilities,
+  softmax,
+  type PredictionResult,
+  type SensorSample,
+} from './gesture-ml';
+import { normalizeSequence } from './gesture-dtw';
+import { resampleSamples, type ResampleOptions } from './gesture-resample';
+
+export type HmmScoring = 'forward' | 'viterbi';
+
+export const HMM_SCORINGS: HmmScoring[] = ['forward', 'viterbi'];
+
+/** Per-label sequences, as collected for DTW templates. */
+export type HmmSequences = Record<string, SensorSample[][]>;
+
+/** Left-to-right HMM with diagonal Gaussian emissions over the six axes. */
+export type LabelHmm = {
+  /** transitions[from][to]; only self, next and skip-one moves are non-zero. */
+  transitions: number[][];
+  means: number[][];
+  variances: number[][];
+  /** Mean per-frame log-likelihood of the training sequences after fitting. */
+  trainingLogLikelihood: number;
+};
+
+export type HmmModel = {
+  labels: string[];
+  states: number;
+  scoring: HmmScoring;
+  /** Grid sequences are resampled onto before scoring. */
+  resample: ResampleOptions;
+  models: Record<string, LabelHmm>;
+  iterations: number;
+  trainedAt: number;
+  trainingSamples: number;
+  pipelineId?: string;
+};
+
+export type HmmTrainOptions = {
+  /** Hidden states per label (gesture phases). */
+  hmmStates?: number;
+  /** Baum-Welch iterations; stops early once the likelihood stops improving. */
+  hmmIterations?: number;
+  hmmScoring?: HmmScoring;
+};
+
+const HMM_AXES = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'] as const;
+
+// Keeps a state fitted to a nearly constant stretch from claiming infinite density.
+const VARIANCE_FLOOR = 1e-2;
+
+/** Resampled, per-axis z-scored frames, the same shape-only view DTW uses. */
+function observations(samples: SensorSample[], resample: ResampleOptions) {
+  return normalizeSequence(resampleSamples(samples, resample)).map((s) =>
+    HMM_AXES.map((axis) => s[axis])
+  );
+}
+
+function emissionLogs(hmm: Pick<LabelHmm, 'means' | 'variances'>, frame: number[]) {
+  return hmm.means.map((mean, state) => {
+    let sum = 0;
+    for (let d = 0; d < frame.length; d++) {
+      const variance = hmm.variances[state][d];
+      const diff = frame[d] - mean[d];
+      sum -= 0.5 * (Math.log(2 * Math.PI * variance) + (diff * diff) / variance);
+    }
+    return sum;
+  });
+}
+
+/**
+ * Scaled forward-backward pass. The sequence must start in state 0 and end in
+ * the last state. Returns null when no such path exists (sequence too short).
+ */
+function forwardBackward(hmm: LabelHmm, obs: number[][], withBackward: boolean) {
+  const n = hmm.means.length;
+  const T = obs.length;
+  // Emissions are shifted by their per-frame max; the shift is added back to the log-likelihood.
+  const emissions: number[][] = [];
+  let logLikelihood = 0;
+  obs.forEach((frame) => {
+    const logs = emissionLogs(hmm, frame);
+    const max = Math.max(...logs);
+    emissions.push(logs.map((l) => Math.exp(l - max)));
+    logLikelihood += max;
+  });
+
+  const alpha: number[][] = [];
+  const scales: number[] = [];
+  for (let t = 0; t < T; t++) {
+    const row = new Array(n).fill(0);
+    if (t === 0) {
+      row[0] = emissions[0][0];
+    } else {
+      for (let j = 0; j < n; j++) {
+        let sum = 0;
+        for (let i = Math.max(0, j - 2); i <= j; i++) sum += alpha[t - 1][i] * hmm.transitions[i][j];
+        row[j] = sum * emissions[t][j];
+      }
+    }
+    const scale = row.reduce((a, b) => a + b, 0);
+    if (!(scale > 0)) return null;
+    scales.push(scale);
+    alpha.push(row.map((v) => v / scale));
+  }
+  const end = alpha[T - 1][n - 1];
+  if (!(end > 0)) return null;
+  scales.forEach((c) => (logLikelihood += Math.log(c)));
+  logLikelihood += Math.log(end);
+  if (!withBackward) return { logLikelihood, alpha, beta: [], emissions, scales };
+
+  const beta: number[][] = new Array(T);
+  beta[T - 1] = new Array(n).fill(0);
+  beta[T - 1][n - 1] = 1;
+  for (let t = T - 2; t >= 0; t--) {
+    const row = new Array(n).fill(0);
+    for (let i = 0; i < n; i++) {
+      let sum = 0;
+      for (let j = i; j <= Math.min(n - 1, i + 2); j++) {
+        sum += hmm.transitions[i][j] * emissions[t + 1][j] * beta[t + 1][j];
+      }
+      row[i] = sum / scales[t + 1];
+    }
+    beta[t] = row;
+  }
+  return { logLikelihood, alpha, beta, emissions, scales };
+}
+
+/** Log-probability of the single best state path, ending in the last state. */
+function viterbi(hmm: LabelHmm, obs: number[][]) {
+  const n = hmm.means.length;
+  const logA = hmm.transitions.map((row) => row.map((p) => (p > 0 ? Math.log(p) : -Infinity)));
+  let delta = emissionLogs(hmm, obs[0]).map((l, state) => (state === 0 ? l : -Infinity));
+  for (let t = 1; t < obs.length; t++) {
+    const logs = emissionLogs(hmm, obs[t]);
+    delta = logs.map((l, j) => {
+      let best = -Infinity;
+      for (let i = Math.max(0, j - 2); i <= j; i++) best = Math.max(best, delta[i] + logA[i][j]);
+      return best + l;
+    });
+  }
+  return delta[n - 1];
+}
+
+/** Splits each sequence evenly across the states for the first estimates. */
+function initialHmm(sequences: number[][][], states: number): LabelHmm {
+  const dims = HMM_AXES.length;
+  const sums = Array.from({ length: states }, () => new Array(dims).fill(0));
+  const squares = Array.from({ length: states }, () => new Array(dims).fill(0));
+  const counts = new Array(states).fill(0);
+  sequences.forEach((obs) => {
+    obs.forEach((frame, t) => {
+      const state = Math.min(states - 1, Math.floor((t * states) / obs.length));
+      counts[state] += 1;
+      frame.forEach((v, d) => {
+        sums[state][d] += v;
+        squares[state][d] += v * v;
+      });
+    });
+  });
+  const means = sums.map((row, s) => row.map((v) => v / Math.max(1, counts[s])));
+  const variances = squares.map((row, s) =>
+    row.map((v, d) => Math.max(VARIANCE_FLOOR, v / Math.max(1, counts[s]) - means[s][d] ** 2))
+  );
+  const transitions = Array.from({ length: states }, (_, i) => {
+    const row = new Array(states).fill(0);
+    const moves = [0.6, 0.3, 0.1].slice(0, states - i);
+    const total = moves.reduce((a, b) => a + b, 0);
+    moves.forEach((p, step) => (row[i + step] = p / total));
+    return row;
+  });
+  return { transitions, means, variances, trainingLogLikelihood: -Infinity };
+}
+
+/** Baum-Welch re-estimation; transitions keep their left-to-right shape. */
+function fitHmm(sequences: number[][][], states: number, iterations: number) {
+  let hmm = initialHmm(sequences, states);
+  let previous = -Infinity;
+  let ran = 0;
+  for (let iter = 0; iter < iterations; iter++) {
+    const dims = HMM_AXES.length;
+    const gammaSum = new Array(states).fill(0);
+    const meanAcc = Array.from({ length: states }, () => new Array(dims).fill(0));
+    const sqAcc = Array.from({ length: states }, () => new Array(dims).fill(0));
+    const xiAcc = Array.from({ length: states }, () => new Array(states).fill(0));
+    let total = 0;
+    let frames = 0;
+    sequences.forEach((obs) => {
+      const pass = forwardBackward(hmm, obs, true);
+      if (!pass) return;
+      const { alpha, beta, emissions, scales } = pass;
+      total += pass.logLikelihood;
+      frames += obs.length;
+      for (let t = 0; t < obs.length; t++) {
+        const gamma = alpha[t].map((a, s) => a * beta[t][s]);
+        const norm = gamma.reduce((a, b) => a + b, 0) || 1;
+        gamma.forEach((g, s) => {
+          const w = g / norm;
+          gammaSum[s] += w;
+          obs[t].forEach((v, d) => {
+            meanAcc[s][d] += w * v;
+            sqAcc[s][d] += w * v * v;
+          });
+        });
+        if (t === obs.length - 1) continue;
+        for (let i = 0; i < states; i++) {
+          for (let j = i; j <= Math.min(states - 1, i + 2); j++) {
+            xiAcc[i][j] +=
+              (alpha[t][i] * hmm.transitions[i][j] * emissions[t + 1][j] * beta[t + 1][j]) /
+              scales[t + 1];
+          }
+        }
+      }
+    });
+    if (!frames) break;
+    const perFrame = total / frames;
+    hmm = {
+      transitions: hmm.transitions.map((row, i) => {
+        const rowTotal = xiAcc[i].reduce((a, b) => a + b, 0);
+        return rowTotal > 0 ? xiAcc[i].map((v) => v / rowTotal) : row;
+      }),
+      means: hmm.means.map((mean, s) =>
+        gammaSum[s] > 1e-9 ? meanAcc[s].map((v) => v / gammaSum[s]) : mean
+      ),
+      variances: hmm.variances.map((variance, s) =>
+        gammaSum[s] > 1e-9
+          ? sqAcc[s].map((v, d) =>
+              Math.max(VARIANCE_FLOOR, v / gammaSum[s] - (meanAcc[s][d] / gammaSum[s]) ** 2)
+            )
+          : variance
+      ),
+      trainingLogLikelihood: perFrame,
+    };
+    ran = iter + 1;
+    if (perFrame - previous < 1e-3) break;
+    previous = perFrame;
+  }
+  return { hmm, iterations: ran };
+}
+
+/**
+ * Fits one left-to-right HMM per label with Baum-Welch. Sequences are put on
+ * the `resample` grid and z-scored per axis first; those shorter than the
+ * states can traverse are skipped.
+ */
+export function trainHmmModel(
+  sequences: HmmSequences,
+  resample: ResampleOptions,
+  options: HmmTrainOptions = {}
+): HmmModel {
+  const states = options.hmmStates ?? 5;
+  const maxIterations = options.hmmIterations ?? 15;
+  const scoring = options.hmmScoring ?? 'forward';
+  if (!Number.isInteger(states) || states < 1) {
+    throw new Error('hmmStates must be a positive integer');
+  }
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error('hmmIterations must be a positive integer');
+  }
+  if (!HMM_SCORINGS.includes(scoring)) {
+    throw new Error(`Unknown HMM scoring "${scoring}"`);
+  }
+  // Skip moves let a path cross all states in about half as many frames
+  // (4 states: 0 → 2 → 3 takes 3 frames).
+  const minFrames = Math.floor(states / 2) + 1;
+  const usable: Record<string, number[][][]> = {};
+  Object.entries(sequences).forEach(([label, seqs]) => {
+    const obs = seqs
+      .map((seq) => observations(seq, resample))
+      .filter((frames) => frames.length >= minFrames);
+    if (obs.length) usable[label] = obs;
+  });
+  const labels = Object.keys(usable);
+  if (!labels.length) {
+    throw new Error('HMM needs entries with raw samples; record new examples.');
+  }
+  if (labels.length < 2) {
+    throw new Error('Need at least two labels to train the model');
+  }
+  const models: Record<string, LabelHmm> = {};
+  let iterations = 0;
+  let trainingSamples = 0;
+  labels.forEach((label) => {
+    const fitted = fitHmm(usable[label], states, maxIterations);
+    models[label] = fitted.hmm;
+    iterations = Math.max(iterations, fitted.iterations);
+    trainingSamples += usable[label].length;
+  });
+  return {
+    labels,
+    states,
+    scoring,
+    resample,
+    models,
+    iterations,
+    trainedAt: Date.now(),
+    trainingSamples,
+  };
+}
+
+/**
+ * Scores the sequence under every label's HMM. Log-likelihoods are divided by
+ * the frame count before the softmax, so confidence reflects the per-frame
+ * fit rather than growing with recording length.
+ */
+export function predictFromHmm(model: HmmModel, samples: SensorSample[]): PredictionResult {
+  const obs = observations(samples, model.resample);
+  if (!obs.length) {
+    throw new Error('HMM prediction needs the raw sensor sequence');
+  }
+  const scores = model.labels.map((label) => {
+    const hmm = model.models[label];
+    const logLikelihood =
+      model.scoring === 'viterbi'
+        ? viterbi(hmm, obs)
+        : forwardBackward(hmm, obs, false)?.logLikelihood ?? -Infinity;
+    return logLikelihood / obs.length;
+  });
+  if (scores.every((s) => s === -Infinity)) {
+    throw new Error('Recording is too short for the HMM states');
+  }
+  return predictionFromProbabilities(model.labels, softmax(scores));
+}
@@ -0,0 +1,207 @@
+import {
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  extractFeatureVector,
+  FEATURE_BLOCKS,
+  sameFeatureLayout,
+  shuffleInPlace,
+  type FeatureBlock,
+  type GestureDataset,
+  type GestureModel,
+} from './gesture-ml';
+import {
+  evaluateClassifierOnDataset,
+  type ClassifierKind,
+  type ClassifierTrainOptions,
+  type GestureClassifier,
+} from './gesture-classifiers';
+
+export type PermutationImportance = {
+  feature: string;
+  /** Mean accuracy lost when this column is shuffled across entries. */
+  importance: number;
+};
+
+export type BlockAblation = {
+  block: FeatureBlock;
+  featureCount: number;
+  /** Cross-validated accuracy with the block's columns removed. */
+  accuracy: number;
+  /** `accuracy` minus the accuracy with every feature kept. */
+  delta: number;
+};
+
+export type WeightedFeature = { feature: string; weight: number };
+
+export type LowVarianceFeature = { feature: string; std: number };
+
+export type FeatureReport = {
+  baselineAccuracy: number;
+  /** Sorted by importance, largest first. Empty for sequence classifiers. */
+  permutation: PermutationImportance[];
+  /** Present when ablation was requested. */
+  ablation?: { baselineAccuracy: number; blocks: BlockAblation[] };
+  /** Softmax only: strongest positive weights per label (on z-scored inputs). */
+  topFeaturesByLabel?: Record<string, WeightedFeature[]>;
+  lowVariance: LowVarianceFeature[];
+};
+
+export type FeatureReportOptions = ClassifierTrainOptions & {
+  /** Shuffles per feature; results are averaged. */
+  repeats?: number;
+  /** Run drop-one-block cross-validation (retrains per block and fold). */
+  ablation?: boolean;
+  folds?: number;
+  topPerLabel?: number;
+};
+
+function accuracyOf(classifier: GestureClassifier, dataset: GestureDataset) {
+  if (!dataset.entries.length) return 0;
+  let correct = 0;
+  dataset.entries.forEach((entry) => {
+    const prediction = classifier.predict({ values: entry.values, samples: entry.samples });
+    if (prediction.label === entry.label) correct += 1;
+  });
+  return correct / dataset.entries.length;
+}
+
+/**
+ * Accuracy drop when each feature column is shuffled across entries. Sequence
+ * recognizers (DTW, HMM) read raw samples, not feature values, so they have
+ * nothing to permute.
+ */
+export function permutationImportance(
+  classifier: GestureClassifier,
+  dataset: GestureDataset,
+  options: { repeats?: number; seed?: number } = {}
+): { baselineAccuracy: number; features: PermutationImportance[] } {
+  const { featureNames } = classifier.summary();
+  if (featureNames && !sameFeatureLayout(featureNames, dataset.featureNames)) {
+    throw new Error('Dataset features do not match the model; re-extract with its pipeline');
+  }
+  const baselineAccuracy = accuracyOf(classifier, dataset);
+  if (!featureNames) return { baselineAccuracy, features: [] };
+  const repeats = options.repeats ?? 3;
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  const features = dataset.featureNames.map((feature, col) => {
+    let lost = 0;
+    for (let r = 0; r < repeats; r++) {
+      const column = dataset.entries.map((entry) => entry.values[col]);
+      shuffleInPlace(column, random);
+      const permuted: GestureDataset = {
+        ...dataset,
+        entries: dataset.entries.map((entry, idx) => {
+          const values = entry.values.slice();
+          values[col] = column[idx];
+          return { ...entry, values };
+        }),
+      };
+      lost += baselineAccuracy - accuracyOf(classifier, permuted);
+    }
+    return { feature, importance: lost / repeats };
+  });
+  features.sort((a, b) => b.importance - a.importance);
+  return { baselineAccuracy, features };
+}
+
+/** Column indices per feature block, matched by name against the dataset layout. */
+export function featureBlockColumns(featureNames: string[]) {
+  const columns = new Map<FeatureBlock, number[]>();
+  FEATURE_BLOCKS.forEach((block) => {
+    const names = new Set(extractFeatureVector([], [block]).featureNames);
+    const idx = featureNames.flatMap((name, col) => (names.has(name) ? [col] : []));
+    if (idx.length) columns.set(block, idx);
+  });
+  return columns;
+}
+
+/**
+ * Cross-validated accuracy with each feature block removed in turn, relative
+ * to keeping every feature. Blocks absent from the layout are skipped.
+ */
+export function blockAblation(
+  dataset: GestureDataset,
+  kind: ClassifierKind,
+  options: ClassifierTrainOptions & { folds?: number } = {}
+): { baselineAccuracy: number; blocks: BlockAblation[] } {
+  const cvAccuracy = (data: GestureDataset) => {
+    const result = evaluateClassifierOnDataset(data, kind, options);
+    return result.crossValidation?.meanAccuracy ?? result.overallAccuracy;
+  };
+  const baselineAccuracy = cvAccuracy(dataset);
+  const blocks: BlockAblation[] = [];
+  featureBlockColumns(dataset.featureNames).forEach((columns, block) => {
+    const dropped = new Set(columns);
+    const keep = (values: number[]) => values.filter((_, col) => !dropped.has(col));
+    if (dropped.size === dataset.featureNames.length) return;
+    const accuracy = cvAccuracy({
+      ...dataset,
+      featureNames: keep(dataset.featureNames.map((_, col) => col)).map(
+        (col) => dataset.featureNames[col]
+      ),
+      entries: dataset.entries.map((entry) => ({ ...entry, values: keep(entry.values) })),
+    });
+    blocks.push({ block, featureCount: columns.length, accuracy, delta: accuracy - baselineAccuracy });
+  });
+  return { baselineAccuracy, blocks };
+}
+
+/** Largest positive softmax weights per label; inputs are z-scored, so weights compare. */
+export function topWeightedFeatures(model: GestureModel, top = 5) {
+  const result: Record<string, WeightedFeature[]> = {};
+  model.labels.forEach((label, cls) => {
+    result[label] = model.weights[cls]
+      .map((weight, col) => ({ feature: model.featureNames[col], weight }))
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, top);
+  });
+  return result;
+}
+
+/**
+ * Features that barely vary across the dataset. `computeFeatureScaling`
+ * replaces a zero std with 1, which hides constant columns, and tiny non-zero
+ * stds blow z-scores up, so both are worth fixing at the source.
+ */
+export function lowVarianceFeatures(dataset: GestureDataset, tolerance = 1e-6) {
+  const n = dataset.entries.length;
+  if (!n) return [];
+  const flagged: LowVarianceFeature[] = [];
+  dataset.featureNames.forEach((feature, col) => {
+    const values = dataset.entries.map((entry) => entry.values[col]);
+    const mean = values.reduce((a, b) => a + b, 0) / n;
+    const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / n);
+    if (std <= tolerance * Math.max(1, Math.abs(mean))) flagged.push({ feature, std });
+  });
+  return flagged;
+}
+
+/** Everything above for one dataset/model pair. */
+export function analyzeFeatures(
+  classifier: GestureClassifier,
+  dataset: GestureDataset,
+  options: FeatureReportOptions = {}
+): FeatureReport {
+  const { repeats, ablation, folds, topPerLabel, ...trainOptions } = options;
+  const permutation = permutationImportance(classifier, dataset, {
+    repeats,
+    seed: trainOptions.seed,
+  });
+  const serialized = classifier.serialize();
+  // An ensemble reports the weights of its softmax member.
+  const softmax =
+    serialized.kind === 'ensemble'
+      ? serialized.members.find((member) => member.kind === 'softmax')
+      : serialized;
+  return {
+    baselineAccuracy: permutation.baselineAccuracy,
+    permutation: permutation.features,
+    ...(ablation
+      ? { ablation: blockAblation(dataset, classifier.kind, { ...trainOptions, folds: folds ?? 5 }) }
+      : {}),
+    ...(softmax?.kind === 'softmax'
+      ? { topFeaturesByLabel: topWeightedFeatures(softmax.model, topPerLabel) }
+      : {}),
+    lowVariance: lowVarianceFeatures(dataset),
+  };
+}
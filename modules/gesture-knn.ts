@@ -0,0 +1,272 @@
+import {
+  computeFeatureScaling,
+  invertMatrix,
+  predictionFromProbabilities,
+  sameFeatureLayout,
+  trainingLabels,
+  type GestureDataset,
+  type PredictionResult,
+} from './gesture-ml';
+
+export type KnnMetric = 'euclidean' | 'cosine' | 'mahalanobis';
+
+export const KNN_METRICS: KnnMetric[] = ['euclidean', 'cosine', 'mahalanobis'];
+
+/** `robust` centers on the median and divides by the interquartile range. */
+export type KnnScaling = 'zscore' | 'robust';
+
+export const KNN_SCALINGS: KnnScaling[] = ['zscore', 'robust'];
+
+/** `distance` lets closer neighbors count more (1 / distance). */
+export type KnnWeighting = 'uniform' | 'distance';
+
+export const KNN_WEIGHTINGS: KnnWeighting[] = ['uniform', 'distance'];
+
+/** Candidates tried when `k` is chosen automatically. */
+export const DEFAULT_K_CANDIDATES = [1, 3, 5, 7, 9, 11];
+
+/** JSON-serializable kNN index: scaled training points plus the scaling used. */
+export type KnnModel = {
+  labels: string[];
+  featureNames: string[];
+  k: number;
+  metric: KnnMetric;
+  scaling: KnnScaling;
+  weighting: KnnWeighting;
+  /** Per-feature center (mean or median). */
+  featureCenter: number[];
+  /** Per-feature spread (std or IQR); constant features get 1. */
+  featureScale: number[];
+  /** Inverse shrunk covariance of the scaled points; Mahalanobis only. */
+  precision?: number[][];
+  /** Scaled training points and their labels. */
+  points: number[][];
+  pointLabels: string[];
+  /** Leave-one-out accuracy per candidate k when k was chosen automatically. */
+  kSelection?: { k: number; accuracy: number }[];
+  trainedAt: number;
+  trainingSamples: number;
+  pipelineId?: string;
+};
+
+export type KnnTrainOptions = {
+  /** Neighbors to vote; chosen by leave-one-out accuracy when unset. */
+  k?: number;
+  kCandidates?: number[];
+  distanceMetric?: KnnMetric;
+  featureScaling?: KnnScaling;
+  neighborWeighting?: KnnWeighting;
+};
+
+// Mahalanobis needs an invertible covariance even with fewer samples than
+// features, so it is blended with the identity.
+const COVARIANCE_SHRINKAGE = 0.1;
+
+function quantile(sorted: number[], q: number) {
+  const pos = q * (sorted.length - 1);
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function robustScaling(rows: number[][], featureCount: number) {
+  const { featureStd } = computeFeatureScaling(rows, featureCount);
+  const featureCenter: number[] = [];
+  const featureScale: number[] = [];
+  for (let col = 0; col < featureCount; col++) {
+    const sorted = rows.map((row) => row[col]).sort((a, b) => a - b);
+    featureCenter.push(quantile(sorted, 0.5));
+    const iqr = quantile(sorted, 0.75) - quantile(sorted, 0.25);
+    // Mostly-constant features have no IQR; fall back to the std.
+    featureScale.push(iqr > 0 ? iqr : featureStd[col]);
+  }
+  return { featureCenter, featureScale };
+}
+
+function shrunkPrecision(points: number[][]) {
+  const d = points[0]?.length ?? 0;
+  const mean = new Array(d).fill(0);
+  points.forEach((p) => p.forEach((v, i) => (mean[i] += v / points.length)));
+  const cov = Array.from({ length: d }, () => new Array(d).fill(0));
+  points.forEach((p) => {
+    for (let i = 0; i < d; i++) {
+      const di = p[i] - mean[i];
+      for (let j = i; j < d; j++) cov[i][j] += (di * (p[j] - mean[j])) / points.length;
+    }
+  });
+  for (let i = 0; i < d; i++) {
+    for (let j = i; j < d; j++) {
+      const value = (1 - COVARIANCE_SHRINKAGE) * cov[i][j] + (i === j ? COVARIANCE_SHRINKAGE : 0);
+      cov[i][j] = value;
+      cov[j][i] = value;
+    }
+  }
+  return invertMatrix(cov);
+}
+
+function distance(model: Pick<KnnModel, 'metric' | 'precision'>, a: number[], b: number[]) {
+  if (model.metric === 'cosine') {
+    let dot = 0;
+    let na = 0;
+    let nb = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      na += a[i] * a[i];
+      nb += b[i] * b[i];
+    }
+    const norm = Math.sqrt(na * nb);
+    return norm > 0 ? 1 - dot / norm : 1;
+  }
+  const diff = a.map((v, i) => v - b[i]);
+  if (model.metric === 'mahalanobis' && model.precision) {
+    let sum = 0;
+    model.precision.forEach((row, i) => {
+      let inner = 0;
+      for (let j = 0; j < diff.length; j++) inner += row[j] * diff[j];
+      sum += diff[i] * inner;
+    });
+    return Math.sqrt(Math.max(0, sum));
+  }
+  return Math.sqrt(diff.reduce((sum, v) => sum + v * v, 0));
+}
+
+function scale(model: Pick<KnnModel, 'featureCenter' | 'featureScale'>, values: number[]) {
+  return values.map((value, idx) => (value - model.featureCenter[idx]) / model.featureScale[idx]);
+}
+
+/** Distances from `point` to every indexed point, nearest first. */
+function neighbors(model: KnnModel, point: number[], skip?: (idx: number) => boolean) {
+  const found: { idx: number; dist: number }[] = [];
+  model.points.forEach((p, idx) => {
+    if (skip?.(idx)) return;
+    found.push({ idx, dist: distance(model, point, p) });
+  });
+  return found.sort((a, b) => a.dist - b.dist);
+}
+
+function vote(
+  model: KnnModel,
+  nearest: { idx: number; dist: number }[],
+  k: number
+): PredictionResult {
+  const scores = model.labels.map(() => 0);
+  nearest.slice(0, k).forEach(({ idx, dist }) => {
+    const weight = model.weighting === 'distance' ? 1 / (dist + 1e-6) : 1;
+    scores[model.labels.indexOf(model.pointLabels[idx])] += weight;
+  });
+  const total = scores.reduce((a, b) => a + b, 0) || 1;
+  return predictionFromProbabilities(
+    model.labels,
+    scores.map((s) => s / total)
+  );
+}
+
+/**
+ * Builds a kNN index on scaled features. Without an explicit `k`, each
+ * candidate is scored by leave-one-out accuracy on real recordings (their
+ * augmented copies are left out too) and the best one is kept, smaller k on ties.
+ */
+export function trainKnnModel(
+  dataset: GestureDataset,
+  options: KnnTrainOptions = {}
+): KnnModel {
+  const { entries, featureNames } = dataset;
+  if (!entries.length) {
+    throw new Error('Cannot train model without any dataset entries');
+  }
+  const metric = options.distanceMetric ?? 'euclidean';
+  const scaling = options.featureScaling ?? 'zscore';
+  const weighting = options.neighborWeighting ?? 'distance';
+  if (!KNN_METRICS.includes(metric)) throw new Error(`Unknown distance metric "${metric}"`);
+  if (!KNN_SCALINGS.includes(scaling)) throw new Error(`Unknown feature scaling "${scaling}"`);
+  if (!KNN_WEIGHTINGS.includes(weighting)) throw new Error(`Unknown neighbor weighting "${weighting}"`);
+  if (options.k !== undefined && !(Number.isInteger(options.k) && options.k >= 1)) {
+    throw new Error('k must be a positive integer');
+  }
+
+  const rows = entries.map((entry) => entry.values);
+  let featureCenter: number[];
+  let featureScale: number[];
+  if (scaling === 'robust') {
+    ({ featureCenter, featureScale } = robustScaling(rows, featureNames.length));
+  } else {
+    const { featureMeans, featureStd } = computeFeatureScaling(rows, featureNames.length);
+    featureCenter = featureMeans;
+    featureScale = featureStd;
+  }
+  const points = rows.map((row) => scale({ featureCenter, featureScale }, row));
+  const model: KnnModel = {
+    labels: trainingLabels(entries),
+    featureNames,
+    k: options.k ?? 1,
+    metric,
+    scaling,
+    weighting,
+    featureCenter,
+    featureScale,
+    ...(metric === 'mahalanobis' ? { precision: shrunkPrecision(points) } : {}),
+    points,
+    pointLabels: entries.map((entry) => entry.label),
+    trainedAt: Date.now(),
+    trainingSamples: entries.length,
+    ...(dataset.pipelineId ? { pipelineId: dataset.pipelineId } : {}),
+  };
+
+  if (options.k === undefined) {
+    const source = entries.map((entry) => entry.augmentedFrom ?? entry.id);
+    const real = entries.flatMap((entry, idx) => (entry.augmentedFrom ? [] : [idx]));
+    const candidates = (options.kCandidates ?? DEFAULT_K_CANDIDATES).filter(
+      (k) => Number.isInteger(k) && k >= 1 && k < entries.length
+    );
+    // Neighbor lists are shared across candidates; only the vote depends on k.
+    const ranked = real.map((idx) => ({
+      label: entries[idx].label,
+      nearest: neighbors(model, points[idx], (other) => source[other] === source[idx]),
+    }));
+    const kSelection = candidates.map((k) => ({
+      k,
+      accuracy: ranked.length
+        ? ranked.filter(({ label, nearest }) => vote(model, nearest, k).label === label).length /
+          ranked.length
+        : 0,
+    }));
+    const best = kSelection.reduce<{ k: number; accuracy: number } | null>(
+      (acc, cur) => (!acc || cur.accuracy > acc.accuracy ? cur : acc),
+      null
+    );
+    if (best) {
+      model.k = best.k;
+      model.kSelection = kSelection;
+    }
+  }
+  return model;
+}
+
+/**
+ * Re-indexes `model` with the dataset's entries, keeping its k, metric and
+ * scaling so predictions stay comparable until the next full training run.
+ */
+export function updateKnnModel(model: KnnModel, dataset: GestureDataset): KnnModel {
+  if (!sameFeatureLayout(model.featureNames, dataset.featureNames)) {
+    throw new Error('Model feature layout does not match the dataset; retrain from scratch.');
+  }
+  if (!dataset.entries.length) {
+    throw new Error('Cannot train model without any dataset entries');
+  }
+  const added = trainingLabels(dataset.entries).filter((label) => !model.labels.includes(label));
+  return {
+    ...model,
+    labels: [...model.labels, ...added],
+    points: dataset.entries.map((entry) => scale(model, entry.values)),
+    pointLabels: dataset.entries.map((entry) => entry.label),
+    trainedAt: Date.now(),
+    trainingSamples: dataset.entries.length,
+  };
+}
+
+export function predictFromKnn(model: KnnModel, values: number[]): PredictionResult {
+  if (!model.points.length) {
+    throw new Error('Model is empty');
+  }
+  return vote(model, neighbors(model, scale(model, values)), model.k);
+}
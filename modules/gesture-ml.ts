@@ -1,3 +1,21 @@
+import {
+  createOptimizer,
+  learningRateAt,
+  type OptimizerOptions,
+  type ScheduleOptions,
+} from './gesture-optim';
+import {
+  correlation,
+  spectralStats,
+  SPECTRAL_BANDS,
+  zeroCrossingRate,
+} from './gesture-spectral';
+import {
+  DEFAULT_SAMPLE_RATE_HZ,
+  resampleSamples,
+  type ResampleOptions,
+} from './gesture-resample';
+
 export type SensorSample = {
   t: number;
   ax: number;
@@ -15,17 +33,70 @@ export type FeatureExtraction = {
   durationMs: number;
 };
 
+/** Independently selectable groups of features, in extraction order. */
+export type FeatureBlock =
+  | 'axis-stats'
+  | 'magnitude'
+  | 'timing'
+  | 'spectral'
+  | 'zero-crossing'
+  | 'correlation'
+  | 'jerk';
+
+export const FEATURE_BLOCKS: readonly FeatureBlock[] = [
+  'axis-stats',
+  'magnitude',
+  'timing',
+  'spectral',
+  'zero-crossing',
+  'correlation',
+  'jerk',
+];
+
+export type Hand = 'left' | 'right';
+
+export const HANDS: Hand[] = ['left', 'right'];
+
+/**
+ * Who recorded an entry, on what, and in which sitting. Every field is
+ * optional so older datasets still load.
+ */
+export type CaptureMetadata = {
+  /** Profile name of the person recording. */
+  userId?: string;
+  deviceModel?: string;
+  /** `ios`, `android` or `web`. */
+  platform?: string;
+  osVersion?: string;
+  /** Rate measured from the recording's timestamps, not the requested one. */
+  sampleRateHz?: number;
+  hand?: Hand;
+  /** Recordings from one sitting share it; they are near-duplicates of each other. */
+  sessionId?: string;
+};
+
 export type GestureDatasetEntry = {
   id: string;
   label: string;
   values: number[];
   sampleCount: number;
   durationMs: number;
+  /**
+   * Sensor sequence as recorded, before the feature pipeline smooths it.
+   * Optional so older datasets still load; when present, features can be
+   * rebuilt after the pipeline changes (see `rebuildDatasetFeatures`).
+   */
+  samples?: SensorSample[];
+  /** Id of the recording this synthetic entry was generated from. */
+  augmentedFrom?: string;
+  capture?: CaptureMetadata;
 };
 
 export type GestureDataset = {
   featureNames: string[];
   entries: GestureDatasetEntry[];
+  /** Feature pipeline that produced `values`; absent in legacy datasets. */
+  pipelineId?: string;
 };
 
 export type GestureModel = {
@@ -38,6 +109,12 @@ export type GestureModel = {
   trainedAt: number;
   trainingSamples: number;
   lossHistory: number[];
+  /** Feature pipeline the model was trained on; see `gesture-features`. */
+  pipelineId?: string;
+  /** Per-epoch loss on the held-out validation split, when one was used. */
+  validationLossHistory?: number[];
+  /** Epoch with the lowest validation loss. */
+  bestEpoch?: number;
 };
 
 export type PredictionResult = {
@@ -50,14 +127,167 @@ export type EvaluationPerLabel = {
   correct: number;
   total: number;
   accuracy: number;
+  /** Share of predictions for this label that were right. */
+  precision: number;
+  /** Share of this label's samples that were recognized (same as accuracy). */
+  recall: number;
+  f1: number;
+};
+
+export type AveragedMetrics = {
+  precision: number;
+  recall: number;
+  f1: number;
+};
+
+export type CalibrationBin = {
+  lower: number;
+  upper: number;
+  count: number;
+  meanConfidence: number;
+  accuracy: number;
+};
+
+export type CalibrationSummary = {
+  /** Count-weighted gap between confidence and accuracy across bins. */
+  expectedCalibrationError: number;
+  bins: CalibrationBin[];
+};
+
+/** One held-out prediction, kept so metrics can be recomputed or pooled. */
+export type EvaluationRecord = {
+  id: string;
+  actual: string;
+  predicted: string;
+  confidence: number;
+};
+
+/** `balanced` scales each label's loss by n / (labels × label count). */
+export type ClassWeighting = 'uniform' | 'balanced';
+
+export const CLASS_WEIGHTINGS: ClassWeighting[] = ['uniform', 'balanced'];
+
+export type SoftmaxTrainOptions = OptimizerOptions &
+  ScheduleOptions & {
+    epochs?: number;
+    learningRate?: number;
+    /** L2 weight decay applied to the weights (not the biases). */
+    l2?: number;
+    /** Mini-batch size; omit or 0 for full-batch gradient descent. */
+    batchSize?: number;
+    /** Share of each label held out to track validation loss. */
+    validationFraction?: number;
+    /** Stop after this many epochs without a new best validation loss. */
+    patience?: number;
+    /** Seeds the validation split and mini-batch shuffling. */
+    seed?: number;
+    /** Loss weight per label; `balanced` keeps large labels from drowning out small ones. */
+    classWeighting?: ClassWeighting;
+  };
+
+/** Trains on one split and returns a predictor for the held-out entries. */
+export type FitPredictor = (
+  train: GestureDataset
+) => (entry: GestureDatasetEntry) => PredictionResult;
+
+export type CrossValidationSummary = {
+  folds: number;
+  foldAccuracies: number[];
+  meanAccuracy: number;
+  stdAccuracy: number;
+  /** Session or user held out by each entry of `foldAccuracies`, in leave-one-group-out mode. */
+  heldOut?: string[];
+};
+
+/** How often everyday motion was mistaken for a gesture. */
+export type BackgroundSummary = {
+  samples: number;
+  /** Background samples predicted as some gesture. */
+  falseActivations: number;
+  falseActivationRate: number;
+  /** Gesture samples predicted as background. */
+  missedGestures: number;
 };
 
 export type EvaluationResult = {
+  /** Accuracy on gesture samples; background samples are reported in `background`. */
   overallAccuracy: number;
+  /** Gesture samples scored; excludes background samples. */
   totalSamples: number;
   perLabel: Record<string, EvaluationPerLabel>;
+  /** Row/column order of `confusionMatrix`. */
+  labels: string[];
+  /** confusionMatrix[actual][predicted] counts, indexed like `labels`. */
+  confusionMatrix: number[][];
+  macro: AveragedMetrics;
+  /**
+   * Pooled over gesture labels: recall equals `overallAccuracy`, while
+   * precision also counts background samples mistaken for a gesture.
+   */
+  micro: AveragedMetrics;
+  /**
+   * Mean per-label recall over gesture labels (equal to `macro.recall`).
+   * Unlike `overallAccuracy` it does not favor labels with more samples.
+   */
+  balancedAccuracy: number;
+  calibration: CalibrationSummary;
+  /** Seed that reproduces the split(s) behind this result. */
+  seed: number;
+  /** Present when the result pools k-fold cross-validation predictions. */
+  crossValidation?: CrossValidationSummary;
+  /** Present when the test data or predictions include the background class. */
+  background?: BackgroundSummary;
+};
+
+/** Capture field a leave-one-group-out evaluation holds out by. */
+export type EvaluationGrouping = 'session' | 'user';
+
+export const EVALUATION_GROUPINGS: EvaluationGrouping[] = ['session', 'user'];
+
+export type EvaluationOptions = {
+  testFraction?: number;
+  /** Number of stratified folds; 1 (default) keeps a single train/test split. */
+  folds?: number;
+  seed?: number;
+  /**
+   * Tests on each session (or user) in turn after training on all the others,
+   * so near-duplicates from one sitting never straddle the split. Overrides
+   * `folds` and `testFraction`.
+   */
+  leaveOneOut?: EvaluationGrouping;
 };
 
+/** Group for entries recorded before capture metadata existed. */
+export const UNKNOWN_CAPTURE_GROUP = 'unknown';
+
+export const DEFAULT_EVALUATION_SEED = 42;
+
+/**
+ * Reserved label for everyday motion that is not a gesture (walking, putting
+ * the phone down, typing). Models learn it like any other class so they can
+ * say "no gesture"; evaluation reports it as false activations instead of
+ * accuracy.
+ */
+export const BACKGROUND_LABEL = '__background__';
+
+export function isBackgroundLabel(label: string) {
+  return label === BACKGROUND_LABEL;
+}
+
+/**
+ * Distinct labels in output order, with the background class last. At least
+ * one real gesture is required, but background plus a single gesture is a
+ * valid two-class detector.
+ */
+export function trainingLabels(entries: GestureDatasetEntry[]): string[] {
+  const labels = Array.from(new Set(entries.map((e) => e.label)));
+  const gestures = labels.filter((label) => !isBackgroundLabel(label));
+  if (!gestures.length) {
+    throw new Error('Need at least one gesture label besides background');
+  }
+  return gestures.length < labels.length ? [...gestures, BACKGROUND_LABEL] : gestures;
+}
+
 const SENSOR_AXES = [
   { key: 'ax', label: 'accel_x' },
   { key: 'ay', label: 'accel_y' },
@@ -69,6 +299,15 @@ const SENSOR_AXES = [
 
 type AxisKey = (typeof SENSOR_AXES)[number]['key'];
 
+const AXIS_PAIRS: [AxisKey, AxisKey][] = [
+  ['ax', 'ay'],
+  ['ax', 'az'],
+  ['ay', 'az'],
+  ['gx', 'gy'],
+  ['gx', 'gz'],
+  ['gy', 'gz'],
+];
+
 type AxisStats = {
   mean: number;
   std: number;
@@ -135,10 +374,28 @@ function statsFromValues(values: number[]) {
   return { mean, std, energy };
 }
 
+/** Per-axis accelerometer derivative (units per second) between samples. */
+function computeJerk(samples: SensorSample[]): [number, number, number][] {
+  const jerk: [number, number, number][] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const dt = (samples[i].t - samples[i - 1].t) / 1000;
+    if (dt <= 0) continue;
+    jerk.push([
+      (samples[i].ax - samples[i - 1].ax) / dt,
+      (samples[i].ay - samples[i - 1].ay) / dt,
+      (samples[i].az - samples[i - 1].az) / dt,
+    ]);
+  }
+  return jerk;
+}
+
 export function movingAverage(
-  samples: SensorSample[],
-  window = 3
+  input: SensorSample[],
+  window = 3,
+  resample?: ResampleOptions
 ): SensorSample[] {
+  // On a uniform grid the window spans the same time for every recording.
+  const samples = resample ? resampleSamples(input, resample) : input;
   if (window <= 1 || samples.length <= 2) return samples;
   const half = Math.floor(window / 2);
   const filtered: SensorSample[] = [];
@@ -178,8 +435,12 @@ export function movingAverage(
 }
 
 export function extractFeatureVector(
-  samples: SensorSample[]
+  input: SensorSample[],
+  blocks: readonly FeatureBlock[] = FEATURE_BLOCKS,
+  resample?: ResampleOptions
 ): FeatureExtraction {
+  const samples = resample ? resampleSamples(input, resample) : input;
+  const enabled = new Set(blocks);
   const sampleCount = samples.length;
   const durationMs = sampleCount
     ? samples[sampleCount - 1].t - samples[0].t
@@ -213,152 +474,387 @@ export function extractFeatureVector(
     'energy',
     'avgAbsDiff',
   ];
-  SENSOR_AXES.forEach((axis) => {
-    const stats = computeAxisStats(axisValues[axis.key]);
-    statKeys.forEach((statKey) => {
-      featureNames.push(`${axis.label}_${statKey}`);
-      values.push(stats[statKey]);
+  if (enabled.has('axis-stats')) {
+    SENSOR_AXES.forEach((axis) => {
+      const stats = computeAxisStats(axisValues[axis.key]);
+      statKeys.forEach((statKey) => {
+        featureNames.push(`${axis.label}_${statKey}`);
+        values.push(stats[statKey]);
+      });
     });
-  });
+  }
+
+  if (enabled.has('magnitude')) {
+    const accelMag = magnitude([axisValues.ax, axisValues.ay, axisValues.az]);
+    const gyroMag = magnitude([axisValues.gx, axisValues.gy, axisValues.gz]);
+    const accelStats = statsFromValues(accelMag);
+    const gyroStats = statsFromValues(gyroMag);
+
+    featureNames.push('accel_magnitude_mean');
+    values.push(accelStats.mean);
+    featureNames.push('accel_magnitude_std');
+    values.push(accelStats.std);
+    featureNames.push('accel_magnitude_energy');
+    values.push(accelStats.energy);
+
+    featureNames.push('gyro_magnitude_mean');
+    values.push(gyroStats.mean);
+    featureNames.push('gyro_magnitude_std');
+    values.push(gyroStats.std);
+    featureNames.push('gyro_magnitude_energy');
+    values.push(gyroStats.energy);
+  }
+
+  if (enabled.has('timing')) {
+    featureNames.push('duration_ms');
+    values.push(durationMs);
+    featureNames.push('sample_count');
+    values.push(sampleCount);
+    featureNames.push('sample_rate_hz');
+    const sampleRate =
+      durationMs > 0 ? (sampleCount / durationMs) * 1000 : sampleCount;
+    values.push(sampleRate);
+  }
+
+  if (enabled.has('spectral')) {
+    // Shakes, circles and flicks differ mostly in tempo.
+    const spectralRate =
+      sampleCount > 1 && durationMs > 0
+        ? ((sampleCount - 1) / durationMs) * 1000
+        : DEFAULT_SAMPLE_RATE_HZ;
+    SENSOR_AXES.forEach((axis) => {
+      const spectrum = spectralStats(axisValues[axis.key], spectralRate);
+      featureNames.push(`${axis.label}_dominant_freq_hz`);
+      values.push(spectrum.dominantFrequency);
+      featureNames.push(`${axis.label}_spectral_centroid_hz`);
+      values.push(spectrum.spectralCentroid);
+      featureNames.push(`${axis.label}_spectral_entropy`);
+      values.push(spectrum.spectralEntropy);
+      SPECTRAL_BANDS.forEach((band, idx) => {
+        featureNames.push(`${axis.label}_${band.name}_energy`);
+        values.push(spectrum.bandEnergies[idx]);
+      });
+    });
+  }
 
-  const accelMag = magnitude([axisValues.ax, axisValues.ay, axisValues.az]);
-  const gyroMag = magnitude([axisValues.gx, axisValues.gy, axisValues.gz]);
-  const accelStats = statsFromValues(accelMag);
-  const gyroStats = statsFromValues(gyroMag);
-
-  featureNames.push('accel_magnitude_mean');
-  values.push(accelStats.mean);
-  featureNames.push('accel_magnitude_std');
-  values.push(accelStats.std);
-  featureNames.push('accel_magnitude_energy');
-  values.push(accelStats.energy);
-
-  featureNames.push('gyro_magnitude_mean');
-  values.push(gyroStats.mean);
-  featureNames.push('gyro_magnitude_std');
-  values.push(gyroStats.std);
-  featureNames.push('gyro_magnitude_energy');
-  values.push(gyroStats.energy);
-
-  featureNames.push('duration_ms');
-  values.push(durationMs);
-  featureNames.push('sample_count');
-  values.push(sampleCount);
-  featureNames.push('sample_rate_hz');
-  const sampleRate =
-    durationMs > 0 ? (sampleCount / durationMs) * 1000 : sampleCount;
-  values.push(sampleRate);
+  if (enabled.has('zero-crossing')) {
+    SENSOR_AXES.forEach((axis) => {
+      featureNames.push(`${axis.label}_zero_crossing_rate`);
+      values.push(zeroCrossingRate(axisValues[axis.key]));
+    });
+  }
+
+  if (enabled.has('correlation')) {
+    const axisLabel = (key: AxisKey) =>
+      SENSOR_AXES.find((axis) => axis.key === key)!.label;
+    AXIS_PAIRS.forEach(([a, b]) => {
+      featureNames.push(`corr_${axisLabel(a)}_${axisLabel(b)}`);
+      values.push(correlation(axisValues[a], axisValues[b]));
+    });
+  }
+
+  if (enabled.has('jerk')) {
+    const jerk = computeJerk(samples);
+    ['accel_x', 'accel_y', 'accel_z'].forEach((label, idx) => {
+      const axisJerk = jerk.map((j) => j[idx]);
+      featureNames.push(`${label}_jerk_rms`);
+      values.push(Math.sqrt(statsFromValues(axisJerk).energy));
+    });
+    const jerkMag = jerk.map((j) => Math.sqrt(j[0] * j[0] + j[1] * j[1] + j[2] * j[2]));
+    const jerkStats = statsFromValues(jerkMag);
+    featureNames.push('accel_jerk_mean');
+    values.push(jerkStats.mean);
+    featureNames.push('accel_jerk_std');
+    values.push(jerkStats.std);
+    featureNames.push('accel_jerk_max');
+    values.push(jerkMag.length ? Math.max(...jerkMag) : 0);
+  }
 
   return { values, featureNames, sampleCount, durationMs };
 }
 
-function softmax(logits: number[]): number[] {
+export function softmax(logits: number[]): number[] {
   const max = Math.max(...logits);
   const exps = logits.map((l) => Math.exp(l - max));
   const sum = exps.reduce((a, b) => a + b, 0) || 1;
   return exps.map((e) => e / sum);
 }
 
-export function trainSoftmaxModel(
-  dataset: GestureDataset,
-  options: { epochs?: number; learningRate?: number } = {}
-): GestureModel {
-  const { entries, featureNames } = dataset;
-  if (!entries.length) {
-    throw new Error('Cannot train model without any dataset entries');
-  }
-  const epochs = options.epochs ?? 200;
-  const learningRate = options.learningRate ?? 0.05;
-  const labels = Array.from(new Set(entries.map((e) => e.label)));
-  const featureCount = featureNames.length;
-  const labelCount = labels.length;
-  if (labelCount < 2) {
-    throw new Error('Need at least two labels to train the model');
+/** Gauss-Jordan inverse with partial pivoting. */
+export function invertMatrix(matrix: number[][]) {
+  const n = matrix.length;
+  const a = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) {
+      throw new Error('Covariance matrix is singular');
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    const p = a[col][col];
+    for (let j = 0; j < 2 * n; j++) a[col][j] /= p;
+    for (let row = 0; row < n; row++) {
+      if (row === col || a[row][col] === 0) continue;
+      const f = a[row][col];
+      for (let j = 0; j < 2 * n; j++) a[row][j] -= f * a[col][j];
+    }
   }
+  return a.map((row) => row.slice(n));
+}
 
+/**
+ * Per-feature mean/std used to z-score inputs. Constant features get a std of
+ * 1 so they pass through centered instead of dividing by zero.
+ */
+export function computeFeatureScaling(rows: number[][], featureCount: number) {
   const featureMeans = new Array(featureCount).fill(0);
   const featureStd = new Array(featureCount).fill(0);
-  entries.forEach((entry) => {
-    entry.values.forEach((value, idx) => {
+  rows.forEach((row) => {
+    row.forEach((value, idx) => {
       featureMeans[idx] += value;
     });
   });
   featureMeans.forEach((_, idx) => {
-    featureMeans[idx] /= entries.length;
+    featureMeans[idx] /= rows.length;
   });
-  entries.forEach((entry) => {
-    entry.values.forEach((value, idx) => {
+  rows.forEach((row) => {
+    row.forEach((value, idx) => {
       featureStd[idx] += (value - featureMeans[idx]) ** 2;
     });
   });
   featureStd.forEach((_, idx) => {
-    featureStd[idx] = Math.sqrt(featureStd[idx] / entries.length);
+    featureStd[idx] = Math.sqrt(featureStd[idx] / rows.length);
     if (featureStd[idx] === 0) featureStd[idx] = 1;
   });
+  return { featureMeans, featureStd };
+}
+
+function softmaxLogits(weights: number[][], biases: number[], row: number[]) {
+  return weights.map((w, clsIdx) =>
+    w.reduce((sum, weight, featIdx) => sum + weight * row[featIdx], biases[clsIdx])
+  );
+}
+
+function crossEntropy(
+  weights: number[][],
+  biases: number[],
+  rows: number[][],
+  targets: number[]
+) {
+  if (!rows.length) return 0;
+  const total = rows.reduce((sum, row, idx) => {
+    const probs = softmax(softmaxLogits(weights, biases, row));
+    return sum - Math.log(Math.max(probs[targets[idx]], 1e-9));
+  }, 0);
+  return total / rows.length;
+}
 
-  const normalized = entries.map((entry) =>
-    entry.values.map(
-      (value, idx) => (value - featureMeans[idx]) / featureStd[idx]
-    )
+/**
+ * Per-label loss weights for training targets (label indices). `balanced`
+ * gives every label the same total weight while keeping the mean sample
+ * weight at 1; labels without targets get 1.
+ */
+export function classWeightsFor(
+  targets: number[],
+  labelCount: number,
+  weighting: ClassWeighting = 'uniform'
+): number[] {
+  if (weighting === 'uniform') return new Array(labelCount).fill(1);
+  if (!CLASS_WEIGHTINGS.includes(weighting)) {
+    throw new Error(`Unknown class weighting "${weighting}"`);
+  }
+  const counts = new Array(labelCount).fill(0);
+  targets.forEach((target) => (counts[target] += 1));
+  const present = counts.filter((count) => count > 0).length;
+  return counts.map((count) => (count ? targets.length / (present * count) : 1));
+}
+
+export function sameFeatureLayout(a: string[], b: string[]) {
+  return a.length === b.length && a.every((name, idx) => name === b[idx]);
+}
+
+/**
+ * Label order for a warm-started model: existing labels keep their weight
+ * rows, labels new to the dataset are appended.
+ */
+export function warmStartLabels(previous: string[], entries: GestureDatasetEntry[]) {
+  const added = trainingLabels(entries).filter((label) => !previous.includes(label));
+  return [...previous, ...added];
+}
+
+export function trainSoftmaxModel(
+  dataset: GestureDataset,
+  options: SoftmaxTrainOptions = {},
+  warmStart?: GestureModel
+): GestureModel {
+  const { entries, featureNames } = dataset;
+  if (!entries.length) {
+    throw new Error('Cannot train model without any dataset entries');
+  }
+  if (warmStart && !sameFeatureLayout(warmStart.featureNames, featureNames)) {
+    throw new Error('Model feature layout does not match the dataset; retrain from scratch.');
+  }
+  const epochs = options.epochs ?? 200;
+  const learningRate = options.learningRate ?? 0.05;
+  const l2 = options.l2 ?? 0;
+  const validationFraction = options.validationFraction ?? 0;
+  const patience = options.patience ?? 0;
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  const labels = warmStart ? warmStartLabels(warmStart.labels, entries) : trainingLabels(entries);
+  const featureCount = featureNames.length;
+  const labelCount = labels.length;
+  if (labelCount < 2) {
+    throw new Error('Need at least two labels to train the model');
+  }
+  if (patience > 0 && validationFraction <= 0) {
+    throw new Error('Early stopping needs a validation split (validationFraction > 0)');
+  }
+
+  const split =
+    validationFraction > 0
+      ? stratifiedSplit(entries, validationFraction, random)
+      : { train: entries.map((_, idx) => idx), test: [] as number[] };
+  const trainEntries = split.train.map((idx) => entries[idx]);
+  const validationEntries = split.test.map((idx) => entries[idx]);
+
+  // Warm starts keep the old scaling; rescaling would invalidate the weights.
+  const { featureMeans, featureStd } = warmStart ?? computeFeatureScaling(
+    trainEntries.map((entry) => entry.values),
+    featureCount
   );
+  const normalize = (entry: GestureDatasetEntry) =>
+    entry.values.map((value, idx) => (value - featureMeans[idx]) / featureStd[idx]);
+  const normalized = trainEntries.map(normalize);
+  const targets = trainEntries.map((entry) => labels.indexOf(entry.label));
+  const classWeights = classWeightsFor(targets, labelCount, options.classWeighting);
+  const validationRows = validationEntries.map(normalize);
+  const validationTargets = validationEntries.map((entry) => labels.indexOf(entry.label));
+
+  const batchSize =
+    options.batchSize && options.batchSize > 0
+      ? Math.min(options.batchSize, normalized.length)
+      : normalized.length;
 
-  const weights = Array.from({ length: labelCount }, () =>
-    new Array(featureCount).fill(0)
+  const weights = labels.map((_, idx) =>
+    warmStart && idx < warmStart.labels.length
+      ? warmStart.weights[idx].slice()
+      : new Array(featureCount).fill(0)
   );
-  const biases = new Array(labelCount).fill(0);
+  const biases = labels.map((_, idx) =>
+    warmStart && idx < warmStart.labels.length ? warmStart.biases[idx] : 0
+  );
+  const optimizer = createOptimizer(options);
   const lossHistory: number[] = [];
+  const validationLossHistory: number[] = [];
+  let best = { loss: Infinity, epoch: 0, weights, biases };
 
+  const order = normalized.map((_, idx) => idx);
   for (let epoch = 0; epoch < epochs; epoch++) {
-    const gradW = Array.from({ length: labelCount }, () =>
-      new Array(featureCount).fill(0)
-    );
-    const gradB = new Array(labelCount).fill(0);
+    const rate = learningRateAt(learningRate, epoch, epochs, options);
+    // Full-batch training keeps the original row order; mini-batches reshuffle.
+    if (batchSize < normalized.length) shuffleInPlace(order, random);
     let loss = 0;
 
-    normalized.forEach((row, rowIdx) => {
-      const logits = weights.map((w, clsIdx) =>
-        w.reduce(
-          (sum, weight, featIdx) => sum + weight * row[featIdx],
-          biases[clsIdx]
-        )
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize);
+      const gradW = Array.from({ length: labelCount }, () =>
+        new Array(featureCount).fill(0)
       );
-      const probs = softmax(logits);
-      const labelIndex = labels.indexOf(entries[rowIdx].label);
-      loss += -Math.log(Math.max(probs[labelIndex], 1e-9));
-      probs.forEach((prob, clsIdx) => {
-        const indicator = clsIdx === labelIndex ? 1 : 0;
-        const error = prob - indicator;
-        for (let featIdx = 0; featIdx < featureCount; featIdx++) {
-          gradW[clsIdx][featIdx] += error * row[featIdx];
-        }
-        gradB[clsIdx] += error;
+      const gradB = new Array(labelCount).fill(0);
+
+      batch.forEach((rowIdx) => {
+        const row = normalized[rowIdx];
+        const probs = softmax(softmaxLogits(weights, biases, row));
+        const labelIndex = targets[rowIdx];
+        const sampleWeight = classWeights[labelIndex];
+        loss += -sampleWeight * Math.log(Math.max(probs[labelIndex], 1e-9));
+        probs.forEach((prob, clsIdx) => {
+          const indicator = clsIdx === labelIndex ? 1 : 0;
+          const error = sampleWeight * (prob - indicator);
+          for (let featIdx = 0; featIdx < featureCount; featIdx++) {
+            gradW[clsIdx][featIdx] += error * row[featIdx];
+          }
+          gradB[clsIdx] += error;
+        });
       });
-    });
 
-    const scale = learningRate / entries.length;
-    for (let clsIdx = 0; clsIdx < labelCount; clsIdx++) {
-      for (let featIdx = 0; featIdx < featureCount; featIdx++) {
-        weights[clsIdx][featIdx] -= gradW[clsIdx][featIdx] * scale;
+      for (let clsIdx = 0; clsIdx < labelCount; clsIdx++) {
+        for (let featIdx = 0; featIdx < featureCount; featIdx++) {
+          gradW[clsIdx][featIdx] =
+            gradW[clsIdx][featIdx] / batch.length + l2 * weights[clsIdx][featIdx];
+        }
+        gradB[clsIdx] /= batch.length;
       }
-      biases[clsIdx] -= gradB[clsIdx] * scale;
+      optimizer.step([...weights, biases], [...gradW, gradB], rate);
     }
 
-    lossHistory.push(loss / entries.length);
+    lossHistory.push(loss / normalized.length);
+
+    if (validationRows.length) {
+      const validationLoss = crossEntropy(weights, biases, validationRows, validationTargets);
+      validationLossHistory.push(validationLoss);
+      if (validationLoss < best.loss) {
+        best = {
+          loss: validationLoss,
+          epoch,
+          weights: weights.map((w) => w.slice()),
+          biases: biases.slice(),
+        };
+      } else if (patience > 0 && epoch - best.epoch >= patience) {
+        break;
+      }
+    }
   }
 
+  // With early stopping, ship the weights from the best validation epoch.
+  const useBest = patience > 0 && best.loss < Infinity;
+
   return {
     labels,
     featureNames,
     featureMeans,
     featureStd,
-    weights,
-    biases,
+    weights: useBest ? best.weights : weights,
+    biases: useBest ? best.biases : biases,
     trainedAt: Date.now(),
-    trainingSamples: entries.length,
+    trainingSamples: trainEntries.length,
     lossHistory,
+    ...(dataset.pipelineId ? { pipelineId: dataset.pipelineId } : {}),
+    ...(validationLossHistory.length
+      ? { validationLossHistory, bestEpoch: best.epoch }
+      : {}),
   };
 }
 
+/**
+ * Adapts a trained model to an updated dataset (new confirmed or corrected
+ * samples, possibly new labels) with a few warm-started epochs instead of a
+ * full retrain. Feature scaling stays fixed to the original training data.
+ */
+export function updateSoftmaxModel(
+  model: GestureModel,
+  dataset: GestureDataset,
+  options: SoftmaxTrainOptions = {}
+): GestureModel {
+  return trainSoftmaxModel(dataset, { epochs: 20, ...options }, model);
+}
+
+/** Builds a sorted `PredictionResult` from per-label probabilities. */
+export function predictionFromProbabilities(
+  labels: string[],
+  probs: number[]
+): PredictionResult {
+  const bestIdx = probs.indexOf(Math.max(...probs));
+  const distribution = labels.map((label, idx) => ({
+    label,
+    confidence: probs[idx],
+  }));
+  distribution.sort((a, b) => b.confidence - a.confidence);
+  return { label: labels[bestIdx], confidence: probs[bestIdx], distribution };
+}
+
 export function predictFromModel(
   model: GestureModel,
   values: number[]
@@ -370,26 +866,16 @@ export function predictFromModel(
   const normalized = values.map(
     (value, idx) => (value - featureMeans[idx]) / featureStd[idx]
   );
-  const logits = weights.map((w, clsIdx) =>
-    w.reduce(
-      (sum, weight, featIdx) => sum + weight * normalized[featIdx],
-      biases[clsIdx]
-    )
-  );
-  const probs = softmax(logits);
-  const bestIdx = probs.indexOf(Math.max(...probs));
-  const distribution = labels.map((label, idx) => ({
-    label,
-    confidence: probs[idx],
-  }));
-  distribution.sort((a, b) => b.confidence - a.confidence);
-  return { label: labels[bestIdx], confidence: probs[bestIdx], distribution };
+  const probs = softmax(softmaxLogits(weights, biases, normalized));
+  return predictionFromProbabilities(labels, probs);
 }
 
 /**
  * Baseline: nearest-neighbor classifier in feature space.
  * Uses Euclidean distance on feature vectors, then converts distances into
- * a probability-like distribution with exp(-distance).
+ * a probability-like distribution with exp(-distance). Features are not
+ * scaled, so `gesture-knn.ts` is the recognizer to use; this one stays for
+ * exported models and as a comparison point.
  */
 export function predictNearestNeighbor(
   dataset: GestureDataset,
@@ -419,85 +905,393 @@ export function predictNearestNeighbor(
   return { label: best.label, confidence: best.confidence, distribution };
 }
 
-function shuffleInPlace<T>(arr: T[]): void {
+/** Deterministic PRNG (mulberry32) so splits can be reproduced from a seed. */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function shuffleInPlace<T>(
+  arr: T[],
+  random: () => number = Math.random
+): void {
   for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     const tmp = arr[i];
     arr[i] = arr[j];
     arr[j] = tmp;
   }
 }
 
+function shuffledIndicesByLabel(
+  entries: GestureDatasetEntry[],
+  random: () => number
+): number[][] {
+  const byLabel: Record<string, number[]> = {};
+  entries.forEach((entry, idx) => {
+    if (!byLabel[entry.label]) byLabel[entry.label] = [];
+    byLabel[entry.label].push(idx);
+  });
+  return Object.keys(byLabel)
+    .sort()
+    .map((label) => {
+      const indices = byLabel[label];
+      shuffleInPlace(indices, random);
+      return indices;
+    });
+}
+
 /**
- * Simple train/test split + evaluation helper for the softmax model.
- * This is meant for offline accuracy measurement, not for production inference.
+ * Splits entry indices into `folds` groups, dealing each label's shuffled
+ * entries round-robin so every fold gets a proportional share of each label.
  */
-export function evaluateSoftmaxOnDataset(
+export function stratifiedFolds(
+  entries: GestureDatasetEntry[],
+  folds: number,
+  random: () => number
+): number[][] {
+  const out: number[][] = Array.from({ length: folds }, () => []);
+  let cursor = 0;
+  shuffledIndicesByLabel(entries, random).forEach((indices) => {
+    indices.forEach((idx) => {
+      out[cursor % folds].push(idx);
+      cursor += 1;
+    });
+  });
+  return out;
+}
+
+/**
+ * Holds out `testFraction` of every label (at least one entry for labels with
+ * two or more samples) so no class is missing from the test split.
+ */
+export function stratifiedSplit(
+  entries: GestureDatasetEntry[],
+  testFraction: number,
+  random: () => number
+): { train: number[]; test: number[] } {
+  const train: number[] = [];
+  const test: number[] = [];
+  shuffledIndicesByLabel(entries, random).forEach((indices) => {
+    const testCount =
+      indices.length < 2
+        ? 0
+        : Math.min(
+            indices.length - 1,
+            Math.max(1, Math.round(indices.length * testFraction))
+          );
+    test.push(...indices.slice(0, testCount));
+    train.push(...indices.slice(testCount));
+  });
+  return { train, test };
+}
+
+/** Session or user id an entry is grouped under for leave-one-group-out splits. */
+export function captureGroup(entry: GestureDatasetEntry, grouping: EvaluationGrouping) {
+  const value = grouping === 'session' ? entry.capture?.sessionId : entry.capture?.userId;
+  return value || UNKNOWN_CAPTURE_GROUP;
+}
+
+/** One test fold per distinct session or user, in first-seen order. */
+function captureGroupFolds(entries: GestureDatasetEntry[], grouping: EvaluationGrouping) {
+  const folds = new Map<string, number[]>();
+  entries.forEach((entry, idx) => {
+    const group = captureGroup(entry, grouping);
+    const indices = folds.get(group) ?? [];
+    indices.push(idx);
+    folds.set(group, indices);
+  });
+  return folds;
+}
+
+function meanAndStd(values: number[]) {
+  if (!values.length) return { mean: 0, std: 0 };
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  const variance =
+    values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length;
+  return { mean, std: Math.sqrt(variance) };
+}
+
+function f1Score(precision: number, recall: number) {
+  return precision + recall > 0
+    ? (2 * precision * recall) / (precision + recall)
+    : 0;
+}
+
+function calibrationFromRecords(
+  records: EvaluationRecord[],
+  binCount = 10
+): CalibrationSummary {
+  const bins: CalibrationBin[] = Array.from({ length: binCount }, (_, idx) => ({
+    lower: idx / binCount,
+    upper: (idx + 1) / binCount,
+    count: 0,
+    meanConfidence: 0,
+    accuracy: 0,
+  }));
+  records.forEach((record) => {
+    const idx = Math.min(binCount - 1, Math.floor(record.confidence * binCount));
+    const bin = bins[idx];
+    bin.count += 1;
+    bin.meanConfidence += record.confidence;
+    if (record.predicted === record.actual) bin.accuracy += 1;
+  });
+  let expectedCalibrationError = 0;
+  bins.forEach((bin) => {
+    if (!bin.count) return;
+    bin.meanConfidence /= bin.count;
+    bin.accuracy /= bin.count;
+    expectedCalibrationError +=
+      (bin.count / records.length) * Math.abs(bin.accuracy - bin.meanConfidence);
+  });
+  return { expectedCalibrationError, bins };
+}
+
+/**
+ * Turns held-out predictions into accuracy, confusion matrix, per-label and
+ * averaged precision/recall/F1, and calibration metrics.
+ */
+export function scorePredictions(
+  records: EvaluationRecord[]
+): Omit<EvaluationResult, 'seed' | 'crossValidation'> {
+  const labels = Array.from(
+    new Set(records.flatMap((r) => [r.actual, r.predicted]))
+  ).sort();
+  const gestureRecords = records.filter((r) => !isBackgroundLabel(r.actual));
+  const index = new Map(labels.map((label, idx) => [label, idx]));
+  const confusionMatrix = labels.map(() => new Array(labels.length).fill(0));
+  records.forEach((r) => {
+    confusionMatrix[index.get(r.actual)!][index.get(r.predicted)!] += 1;
+  });
+
+  const perLabel: Record<string, EvaluationPerLabel> = {};
+  let correct = 0;
+  labels.forEach((label, idx) => {
+    const total = confusionMatrix[idx].reduce((a, b) => a + b, 0);
+    const predictedCount = confusionMatrix.reduce((sum, row) => sum + row[idx], 0);
+    const hits = confusionMatrix[idx][idx];
+    // Labels that were only ever predicted have no samples to report on.
+    if (!total || isBackgroundLabel(label)) return;
+    correct += hits;
+    const recall = hits / total;
+    const precision = predictedCount ? hits / predictedCount : 0;
+    perLabel[label] = {
+      correct: hits,
+      total,
+      accuracy: recall,
+      precision,
+      recall,
+      f1: f1Score(precision, recall),
+    };
+  });
+
+  const reported = Object.values(perLabel);
+  const average = (key: keyof AveragedMetrics) =>
+    reported.length
+      ? reported.reduce((sum, stats) => sum + stats[key], 0) / reported.length
+      : 0;
+  const totalSamples = gestureRecords.length;
+  const overallAccuracy = totalSamples ? correct / totalSamples : 0;
+  const balancedAccuracy = average('recall');
+  // Micro averages pool gesture counts: background predictions are neither hits
+  // nor false alarms for a gesture, and background samples predicted as a
+  // gesture count against precision.
+  const gesturePredictions = records.filter((r) => !isBackgroundLabel(r.predicted)).length;
+  const microPrecision = gesturePredictions ? correct / gesturePredictions : 0;
+
+  const backgroundRecords = records.filter((r) => isBackgroundLabel(r.actual));
+  const missedGestures = gestureRecords.filter((r) => isBackgroundLabel(r.predicted)).length;
+  let background: BackgroundSummary | undefined;
+  if (backgroundRecords.length || missedGestures) {
+    const falseActivations = backgroundRecords.filter(
+      (r) => !isBackgroundLabel(r.predicted)
+    ).length;
+    background = {
+      samples: backgroundRecords.length,
+      falseActivations,
+      falseActivationRate: backgroundRecords.length
+        ? falseActivations / backgroundRecords.length
+        : 0,
+      missedGestures,
+    };
+  }
+
+  return {
+    overallAccuracy,
+    totalSamples,
+    perLabel,
+    labels,
+    confusionMatrix,
+    macro: {
+      precision: average('precision'),
+      recall: average('recall'),
+      f1: average('f1'),
+    },
+    micro: {
+      precision: microPrecision,
+      recall: overallAccuracy,
+      f1: f1Score(microPrecision, overallAccuracy),
+    },
+    balancedAccuracy,
+    calibration: calibrationFromRecords(gestureRecords),
+    ...(background ? { background } : {}),
+  };
+}
+
+/**
+ * Seeded, stratified evaluation helper for any recognizer.
+ * `fit` trains on each training split and returns the predictor used on the
+ * held-out entries. With `folds >= 2` or `leaveOneOut` every entry is tested
+ * exactly once and the per-label numbers pool all folds.
+ */
+export function evaluateOnDataset(
   dataset: GestureDataset,
-  options: {
-    testFraction?: number;
-    epochs?: number;
-    learningRate?: number;
-  } = {}
-): { result: EvaluationResult; model: GestureModel } {
-  const { entries } = dataset;
+  fit: FitPredictor,
+  options: EvaluationOptions = {}
+): EvaluationResult {
+  // Only real recordings are split; augmented copies follow their source
+  // into training and never reach a test fold.
+  const entries = dataset.entries.filter((entry) => !entry.augmentedFrom);
+  const augmentedBySource = new Map<string, GestureDatasetEntry[]>();
+  dataset.entries.forEach((entry) => {
+    if (!entry.augmentedFrom) return;
+    const copies = augmentedBySource.get(entry.augmentedFrom) ?? [];
+    copies.push(entry);
+    augmentedBySource.set(entry.augmentedFrom, copies);
+  });
   if (!entries.length) {
     throw new Error('Cannot evaluate model: dataset is empty');
   }
   const testFraction = options.testFraction ?? 0.2;
-  const epochs = options.epochs ?? 250;
-  const learningRate = options.learningRate ?? 0.08;
-
-  // Shuffle indices and split into train/test.
-  const indices = entries.map((_, idx) => idx);
-  shuffleInPlace(indices);
-  const testCount = Math.max(1, Math.floor(indices.length * testFraction));
-  const testIdx = new Set(indices.slice(0, testCount));
-  const trainEntries: GestureDatasetEntry[] = [];
-  const testEntries: GestureDatasetEntry[] = [];
-  indices.forEach((idx) => {
-    if (testIdx.has(idx)) testEntries.push(entries[idx]);
-    else trainEntries.push(entries[idx]);
-  });
+  const folds = Math.floor(options.folds ?? 1);
+  const seed = options.seed ?? DEFAULT_EVALUATION_SEED;
+  const random = createSeededRandom(seed);
+  const grouping = options.leaveOneOut;
 
-  if (trainEntries.length < 2) {
+  if (grouping && !EVALUATION_GROUPINGS.includes(grouping)) {
+    throw new Error(`Unknown evaluation grouping "${grouping}"`);
+  }
+  if (!grouping && folds > entries.length) {
     throw new Error(
-      'Not enough training samples after split; collect more data.'
+      `Need at least ${folds} samples for ${folds}-fold cross-validation.`
     );
   }
 
-  const trainDataset: GestureDataset = {
-    featureNames: dataset.featureNames,
-    entries: trainEntries,
-  };
+  let splits: { train: number[]; test: number[]; heldOut?: string }[];
+  if (grouping) {
+    const groups = captureGroupFolds(entries, grouping);
+    if (groups.size < 2) {
+      throw new Error(
+        `Leave-one-${grouping}-out needs recordings from at least 2 ${grouping}s.`
+      );
+    }
+    splits = Array.from(groups.entries()).map(([heldOut, test]) => ({
+      heldOut,
+      test,
+      train: entries.map((_, idx) => idx).filter((idx) => !test.includes(idx)),
+    }));
+  } else if (folds >= 2) {
+    const groups = stratifiedFolds(entries, folds, random);
+    splits = groups.map((test, foldIdx) => ({
+      test,
+      train: groups.filter((_, idx) => idx !== foldIdx).flat(),
+    }));
+  } else {
+    splits = [stratifiedSplit(entries, testFraction, random)];
+  }
 
-  const model = trainSoftmaxModel(trainDataset, { epochs, learningRate });
+  const records: EvaluationRecord[] = [];
+  const foldAccuracies: number[] = [];
+  const heldOutGroups: string[] = [];
 
-  const perLabel: Record<string, EvaluationPerLabel> = {};
-  let correct = 0;
-
-  testEntries.forEach((entry) => {
-    const pred = predictFromModel(model, entry.values);
-    const label = entry.label;
-    if (!perLabel[label])
-      perLabel[label] = { correct: 0, total: 0, accuracy: 0 };
-    perLabel[label].total += 1;
-    if (pred.label === label) {
-      perLabel[label].correct += 1;
-      correct += 1;
+  splits.forEach(({ train, test, heldOut }) => {
+    if (train.length < 2) {
+      throw new Error(
+        'Not enough training samples after split; collect more data.'
+      );
     }
-  });
+    if (!test.length) {
+      throw new Error('Test split is empty; collect at least two samples per label.');
+    }
+    const predict = fit({
+      ...dataset,
+      entries: train.flatMap((idx) => [
+        entries[idx],
+        ...(augmentedBySource.get(entries[idx].id) ?? []),
+      ]),
+    });
 
-  Object.keys(perLabel).forEach((label) => {
-    const stats = perLabel[label];
-    stats.accuracy = stats.total ? stats.correct / stats.total : 0;
+    let foldCorrect = 0;
+    let foldGestures = 0;
+    test.forEach((idx) => {
+      const entry = entries[idx];
+      const pred = predict(entry);
+      if (!isBackgroundLabel(entry.label)) {
+        foldGestures += 1;
+        if (pred.label === entry.label) foldCorrect += 1;
+      }
+      records.push({
+        id: entry.id,
+        actual: entry.label,
+        predicted: pred.label,
+        confidence: pred.confidence,
+      });
+    });
+    if (!foldGestures) return;
+    foldAccuracies.push(foldCorrect / foldGestures);
+    if (heldOut !== undefined) heldOutGroups.push(heldOut);
   });
 
-  const totalSamples = testEntries.length;
-  const overallAccuracy = totalSamples ? correct / totalSamples : 0;
+  const result: EvaluationResult = { ...scorePredictions(records), seed };
+  if (grouping || folds >= 2) {
+    const { mean, std } = meanAndStd(foldAccuracies);
+    result.crossValidation = {
+      folds: splits.length,
+      foldAccuracies,
+      meanAccuracy: mean,
+      stdAccuracy: std,
+      ...(grouping ? { heldOut: heldOutGroups } : {}),
+    };
+  }
+  return result;
+}
 
-  return {
-    result: { overallAccuracy, totalSamples, perLabel },
-    model,
-  };
+/**
+ * Train/test evaluation for the softmax model. With cross-validation the
+ * returned model is the one trained for the last fold.
+ * This is meant for offline accuracy measurement, not for production inference.
+ */
+export function evaluateSoftmaxOnDataset(
+  dataset: GestureDataset,
+  options: EvaluationOptions & SoftmaxTrainOptions = {}
+): { result: EvaluationResult; model: GestureModel } {
+  const { testFraction, folds, leaveOneOut, ...trainOptions } = options;
+  const epochs = options.epochs ?? 250;
+  const learningRate = options.learningRate ?? 0.08;
+  let model = undefined as GestureModel | undefined;
+
+  const result = evaluateOnDataset(
+    dataset,
+    (train) => {
+      const trained = trainSoftmaxModel(train, {
+        ...trainOptions,
+        epochs,
+        learningRate,
+      });
+      model = trained;
+      return (entry) => predictFromModel(trained, entry.values);
+    },
+    { testFraction, folds, seed: options.seed, leaveOneOut }
+  );
+
+  if (!model) {
+    throw new Error('Evaluation finished without training a model');
+  }
+  return { result, model };
 }
@@ -0,0 +1,348 @@
+import {
+  classWeightsFor,
+  computeFeatureScaling,
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  predictionFromProbabilities,
+  sameFeatureLayout,
+  shuffleInPlace,
+  softmax,
+  stratifiedSplit,
+  trainingLabels,
+  warmStartLabels,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type PredictionResult,
+  type SoftmaxTrainOptions,
+} from './gesture-ml';
+import { createOptimizer, learningRateAt } from './gesture-optim';
+
+export type MlpActivation = 'relu' | 'tanh';
+
+export const MLP_ACTIVATIONS: MlpActivation[] = ['relu', 'tanh'];
+
+export type MlpLayer = {
+  /** weights[outputUnit][inputUnit] */
+  weights: number[][];
+  biases: number[];
+};
+
+/** JSON-serializable multilayer perceptron, shaped like `GestureModel`. */
+export type MlpModel = {
+  labels: string[];
+  featureNames: string[];
+  featureMeans: number[];
+  featureStd: number[];
+  hiddenLayers: number[];
+  activation: MlpActivation;
+  /** Hidden layers followed by the output layer. */
+  layers: MlpLayer[];
+  trainedAt: number;
+  trainingSamples: number;
+  lossHistory: number[];
+  pipelineId?: string;
+  validationLossHistory?: number[];
+  bestEpoch?: number;
+};
+
+export type MlpTrainOptions = SoftmaxTrainOptions & {
+  /** Units per hidden layer, e.g. [32, 16]. */
+  hiddenLayers?: number[];
+  activation?: MlpActivation;
+  /** Dropout rate applied to hidden activations while training. */
+  dropout?: number;
+};
+
+function activate(kind: MlpActivation, z: number) {
+  return kind === 'relu' ? Math.max(0, z) : Math.tanh(z);
+}
+
+/** Derivative expressed through the activation output `a`. */
+function activationGradient(kind: MlpActivation, a: number) {
+  return kind === 'relu' ? (a > 0 ? 1 : 0) : 1 - a * a;
+}
+
+function gaussian(random: () => number) {
+  const u = Math.max(random(), 1e-12);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/** Random dense layer; also sizes conv filters (fan-in = channels × kernel). */
+export function initLayer(
+  inputs: number,
+  outputs: number,
+  activation: MlpActivation,
+  random: () => number
+): MlpLayer {
+  // He init for ReLU, Xavier for tanh.
+  const scale =
+    activation === 'relu' ? Math.sqrt(2 / inputs) : Math.sqrt(1 / inputs);
+  return {
+    weights: Array.from({ length: outputs }, () =>
+      Array.from({ length: inputs }, () => gaussian(random) * scale)
+    ),
+    biases: new Array(outputs).fill(0),
+  };
+}
+
+function denseForward(layer: MlpLayer, input: number[]) {
+  return layer.weights.map((w, unit) => {
+    let sum = layer.biases[unit];
+    for (let i = 0; i < input.length; i++) sum += w[i] * input[i];
+    return sum;
+  });
+}
+
+type ForwardPass = {
+  /** activations[0] is the input; the last entry holds the output probabilities. */
+  activations: number[][];
+  masks: (number[] | null)[];
+};
+
+function forward(
+  model: Pick<MlpModel, 'layers' | 'activation'>,
+  input: number[],
+  dropout = 0,
+  random?: () => number
+): ForwardPass {
+  const activations: number[][] = [input];
+  const masks: (number[] | null)[] = [];
+  const hiddenCount = model.layers.length - 1;
+  for (let l = 0; l < hiddenCount; l++) {
+    const z = denseForward(model.layers[l], activations[l]);
+    let a = z.map((value) => activate(model.activation, value));
+    let mask: number[] | null = null;
+    if (dropout > 0 && random) {
+      // Inverted dropout keeps activations at the same expected scale.
+      mask = a.map(() => (random() < dropout ? 0 : 1 / (1 - dropout)));
+      a = a.map((value, idx) => value * mask![idx]);
+    }
+    activations.push(a);
+    masks.push(mask);
+  }
+  const logits = denseForward(model.layers[hiddenCount], activations[hiddenCount]);
+  activations.push(softmax(logits));
+  return { activations, masks };
+}
+
+function meanCrossEntropy(
+  model: Pick<MlpModel, 'layers' | 'activation'>,
+  rows: number[][],
+  targets: number[]
+) {
+  if (!rows.length) return 0;
+  const total = rows.reduce((sum, row, idx) => {
+    const { activations } = forward(model, row);
+    const probs = activations[activations.length - 1];
+    return sum - Math.log(Math.max(probs[targets[idx]], 1e-9));
+  }, 0);
+  return total / rows.length;
+}
+
+function cloneLayers(layers: MlpLayer[]): MlpLayer[] {
+  return layers.map((layer) => ({
+    weights: layer.weights.map((w) => w.slice()),
+    biases: layer.biases.slice(),
+  }));
+}
+
+/**
+ * Trains a small fully connected network with softmax output on z-scored
+ * features. Shares the optimizer, schedule, L2, mini-batch and early-stopping
+ * options with `trainSoftmaxModel`. A `warmStart` model continues from its
+ * weights, scaling and architecture.
+ */
+export function trainMlpModel(
+  dataset: GestureDataset,
+  options: MlpTrainOptions = {},
+  warmStart?: MlpModel
+): MlpModel {
+  const { entries, featureNames } = dataset;
+  if (!entries.length) {
+    throw new Error('Cannot train model without any dataset entries');
+  }
+  if (warmStart && !sameFeatureLayout(warmStart.featureNames, featureNames)) {
+    throw new Error('Model feature layout does not match the dataset; retrain from scratch.');
+  }
+  const epochs = options.epochs ?? 200;
+  const learningRate = options.learningRate ?? 0.05;
+  const l2 = options.l2 ?? 0;
+  const dropout = options.dropout ?? 0;
+  // A warm start keeps the architecture it was trained with.
+  const hiddenLayers = warmStart?.hiddenLayers ?? options.hiddenLayers ?? [32];
+  const activation = warmStart?.activation ?? options.activation ?? 'relu';
+  const validationFraction = options.validationFraction ?? 0;
+  const patience = options.patience ?? 0;
+  const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+  const labels = warmStart ? warmStartLabels(warmStart.labels, entries) : trainingLabels(entries);
+  const featureCount = featureNames.length;
+  if (labels.length < 2) {
+    throw new Error('Need at least two labels to train the model');
+  }
+  if (!hiddenLayers.length || hiddenLayers.some((units) => !(units >= 1))) {
+    throw new Error('hiddenLayers needs at least one layer with one or more units');
+  }
+  if (!(dropout >= 0 && dropout < 1)) {
+    throw new Error('dropout must be in [0, 1)');
+  }
+  if (patience > 0 && validationFraction <= 0) {
+    throw new Error('Early stopping needs a validation split (validationFraction > 0)');
+  }
+
+  const split =
+    validationFraction > 0
+      ? stratifiedSplit(entries, validationFraction, random)
+      : { train: entries.map((_, idx) => idx), test: [] as number[] };
+  const trainEntries = split.train.map((idx) => entries[idx]);
+  const validationEntries = split.test.map((idx) => entries[idx]);
+
+  // Warm starts keep the old scaling; rescaling would invalidate the weights.
+  const { featureMeans, featureStd } = warmStart ?? computeFeatureScaling(
+    trainEntries.map((entry) => entry.values),
+    featureCount
+  );
+  const normalize = (entry: GestureDatasetEntry) =>
+    entry.values.map((value, idx) => (value - featureMeans[idx]) / featureStd[idx]);
+  const rows = trainEntries.map(normalize);
+  const targets = trainEntries.map((entry) => labels.indexOf(entry.label));
+  const classWeights = classWeightsFor(targets, labels.length, options.classWeighting);
+  const validationRows = validationEntries.map(normalize);
+  const validationTargets = validationEntries.map((entry) => labels.indexOf(entry.label));
+
+  const sizes = [featureCount, ...hiddenLayers, labels.length];
+  const layers: MlpLayer[] = [];
+  for (let l = 0; l < sizes.length - 1; l++) {
+    layers.push(initLayer(sizes[l], sizes[l + 1], activation, random));
+  }
+  if (warmStart) {
+    warmStart.layers.forEach((layer, l) => {
+      layer.weights.forEach((w, unit) => {
+        layers[l].weights[unit] = w.slice();
+        layers[l].biases[unit] = layer.biases[unit];
+      });
+    });
+  }
+  const net = { layers, activation };
+  const params = layers.flatMap((layer) => [...layer.weights, layer.biases]);
+  const optimizer = createOptimizer(options);
+  const batchSize =
+    options.batchSize && options.batchSize > 0
+      ? Math.min(options.batchSize, rows.length)
+      : rows.length;
+
+  const lossHistory: number[] = [];
+  const validationLossHistory: number[] = [];
+  let best = { loss: Infinity, epoch: 0, layers };
+  const order = rows.map((_, idx) => idx);
+
+  for (let epoch = 0; epoch < epochs; epoch++) {
+    const rate = learningRateAt(learningRate, epoch, epochs, options);
+    if (batchSize < rows.length) shuffleInPlace(order, random);
+    let loss = 0;
+
+    for (let start = 0; start < order.length; start += batchSize) {
+      const batch = order.slice(start, start + batchSize);
+      const grads = layers.map((layer) => ({
+        weights: layer.weights.map((w) => new Array(w.length).fill(0)),
+        biases: new Array(layer.biases.length).fill(0),
+      }));
+
+      batch.forEach((rowIdx) => {
+        const { activations, masks } = forward(net, rows[rowIdx], dropout, random);
+        const probs = activations[activations.length - 1];
+        const target = targets[rowIdx];
+        const sampleWeight = classWeights[target];
+        loss += -sampleWeight * Math.log(Math.max(probs[target], 1e-9));
+
+        let delta = probs.map((p, idx) => sampleWeight * (p - (idx === target ? 1 : 0)));
+        for (let l = layers.length - 1; l >= 0; l--) {
+          const input = activations[l];
+          const grad = grads[l];
+          delta.forEach((d, unit) => {
+            const row = grad.weights[unit];
+            for (let i = 0; i < input.length; i++) row[i] += d * input[i];
+            grad.biases[unit] += d;
+          });
+          if (l === 0) break;
+          const mask = masks[l - 1];
+          const prevDelta = new Array(input.length).fill(0);
+          delta.forEach((d, unit) => {
+            const w = layers[l].weights[unit];
+            for (let i = 0; i < input.length; i++) prevDelta[i] += w[i] * d;
+          });
+          delta = prevDelta.map((d, i) => {
+            // Dropped units carry no gradient; kept ones were scaled forward.
+            const scale = mask ? mask[i] : 1;
+            if (scale === 0) return 0;
+            const a = input[i] / scale;
+            return d * activationGradient(activation, a) * scale;
+          });
+        }
+      });
+
+      const gradRows = grads.flatMap((grad, l) => [
+        ...grad.weights.map((row, unit) =>
+          row.map((g, i) => g / batch.length + l2 * layers[l].weights[unit][i])
+        ),
+        grad.biases.map((g) => g / batch.length),
+      ]);
+      optimizer.step(params, gradRows, rate);
+    }
+
+    lossHistory.push(loss / rows.length);
+
+    if (validationRows.length) {
+      const validationLoss = meanCrossEntropy(net, validationRows, validationTargets);
+      validationLossHistory.push(validationLoss);
+      if (validationLoss < best.loss) {
+        best = { loss: validationLoss, epoch, layers: cloneLayers(layers) };
+      } else if (patience > 0 && epoch - best.epoch >= patience) {
+        break;
+      }
+    }
+  }
+
+  const useBest = patience > 0 && best.loss < Infinity;
+
+  return {
+    labels,
+    featureNames,
+    featureMeans,
+    featureStd,
+    hiddenLayers,
+    activation,
+    layers: useBest ? best.layers : layers,
+    trainedAt: Date.now(),
+    trainingSamples: trainEntries.length,
+    lossHistory,
+    ...(dataset.pipelineId ? { pipelineId: dataset.pipelineId } : {}),
+    ...(validationLossHistory.length
+      ? { validationLossHistory, bestEpoch: best.epoch }
+      : {}),
+  };
+}
+
+/** Warm-started fine-tuning; the MLP counterpart of `updateSoftmaxModel`. */
+export function updateMlpModel(
+  model: MlpModel,
+  dataset: GestureDataset,
+  options: MlpTrainOptions = {}
+): MlpModel {
+  return trainMlpModel(dataset, { epochs: 20, ...options }, model);
+}
+
+export function predictFromMlp(
+  model: MlpModel,
+  values: number[]
+): PredictionResult {
+  const { featureMeans, featureStd, labels } = model;
+  if (!labels.length || !model.layers.length) {
+    throw new Error('Model is empty');
+  }
+  const normalized = values.map(
+    (value, idx) => (value - featureMeans[idx]) / featureStd[idx]
+  );
+  const { activations } = forward(model, normalized);
+  return predictionFromProbabilities(labels, activations[activations.length - 1]);
+}
@@ -0,0 +1,108 @@
+export type OptimizerKind = 'sgd' | 'momentum' | 'adam';
+
+export type LearningRateSchedule = 'constant' | 'step' | 'exponential' | 'cosine';
+
+export type OptimizerOptions = {
+  optimizer?: OptimizerKind;
+  /** Momentum coefficient, also used as Adam's beta1. */
+  momentum?: number;
+  beta2?: number;
+  epsilon?: number;
+};
+
+export type ScheduleOptions = {
+  lrSchedule?: LearningRateSchedule;
+  /** Multiplier for `step` (per step) and `exponential` (per epoch). */
+  lrDecay?: number;
+  /** Epochs between decays for the `step` schedule. */
+  lrStepSize?: number;
+};
+
+export const OPTIMIZER_KINDS: OptimizerKind[] = ['sgd', 'momentum', 'adam'];
+
+export const LEARNING_RATE_SCHEDULES: LearningRateSchedule[] = [
+  'constant',
+  'step',
+  'exponential',
+  'cosine',
+];
+
+/**
+ * Updates parameter rows in place from gradient rows of the same shape.
+ * Models hand over every weight matrix row and bias vector as one list.
+ */
+export type ParameterOptimizer = {
+  step(params: number[][], grads: number[][], learningRate: number): void;
+};
+
+export function createOptimizer(options: OptimizerOptions = {}): ParameterOptimizer {
+  const kind = options.optimizer ?? 'sgd';
+  const beta1 = options.momentum ?? 0.9;
+  const beta2 = options.beta2 ?? 0.999;
+  const epsilon = options.epsilon ?? 1e-8;
+  let first: number[][] | null = null;
+  let second: number[][] | null = null;
+  let t = 0;
+
+  const zerosLike = (rows: number[][]) => rows.map((row) => new Array(row.length).fill(0));
+
+  return {
+    step(params, grads, learningRate) {
+      if (kind === 'sgd') {
+        params.forEach((row, r) => {
+          for (let i = 0; i < row.length; i++) row[i] -= learningRate * grads[r][i];
+        });
+        return;
+      }
+      first = first ?? zerosLike(params);
+      if (kind === 'momentum') {
+        const velocity = first;
+        params.forEach((row, r) => {
+          for (let i = 0; i < row.length; i++) {
+            velocity[r][i] = beta1 * velocity[r][i] + grads[r][i];
+            row[i] -= learningRate * velocity[r][i];
+          }
+        });
+        return;
+      }
+      second = second ?? zerosLike(params);
+      t += 1;
+      const m = first;
+      const v = second;
+      const correction1 = 1 - beta1 ** t;
+      const correction2 = 1 - beta2 ** t;
+      params.forEach((row, r) => {
+        for (let i = 0; i < row.length; i++) {
+          const g = grads[r][i];
+          m[r][i] = beta1 * m[r][i] + (1 - beta1) * g;
+          v[r][i] = beta2 * v[r][i] + (1 - beta2) * g * g;
+          const mHat = m[r][i] / correction1;
+          const vHat = v[r][i] / correction2;
+          row[i] -= (learningRate * mHat) / (Math.sqrt(vHat) + epsilon);
+        }
+      });
+    },
+  };
+}
+
+/** Learning rate to use for a zero-based `epoch` out of `epochs`. */
+export function learningRateAt(
+  baseRate: number,
+  epoch: number,
+  epochs: number,
+  options: ScheduleOptions = {}
+): number {
+  const schedule = options.lrSchedule ?? 'constant';
+  switch (schedule) {
+    case 'step': {
+      const stepSize = options.lrStepSize ?? Math.max(1, Math.floor(epochs / 4));
+      return baseRate * (options.lrDecay ?? 0.5) ** Math.floor(epoch / stepSize);
+    }
+    case 'exponential':
+      return baseRate * (options.lrDecay ?? 0.99) ** epoch;
+    case 'cosine':
+      return baseRate * 0.5 * (1 + Math.cos((Math.PI * epoch) / Math.max(1, epochs)));
+    default:
+      return baseRate;
+  }
+}
@@ -0,0 +1,323 @@
+import {
+  computeFeatureScaling,
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  isBackgroundLabel,
+  stratifiedFolds,
+  type FitPredictor,
+  type GestureDataset,
+  type GestureDatasetEntry,
+  type PredictionResult,
+} from './gesture-ml';
+
+/** Confidence cut-off for models trained before thresholds were calibrated. */
+export const DEFAULT_MIN_CONFIDENCE = 0.55;
+
+// Calibrated limits never demand more than this; a handful of very confident
+// held-out predictions would otherwise push thresholds to 0.99 and up.
+const MAX_MIN_CONFIDENCE = 0.9;
+const MAX_MIN_MARGIN = 0.5;
+
+// Correct held-out predictions a label needs before its confidence threshold
+// replaces the default; with fewer, the quantile is just the worst sample.
+const MIN_CALIBRATION_SAMPLES = 5;
+
+// How far confirmed recordings may loosen a label's limits between full
+// calibrations: confidence and margin by an absolute amount, distance by a factor.
+const MAX_REFRESH_LOOSENING = 0.1;
+const MAX_REFRESH_DISTANCE_FACTOR = 1.25;
+
+export type LabelThresholds = {
+  /** Class centroid in z-scored feature space. */
+  centroid: number[];
+  minConfidence: number;
+  /** Largest RMS z-score distance to the centroid still accepted; unset skips the test. */
+  maxDistance?: number;
+  /** Label-specific top-two margin set by refreshes; the global one applies otherwise. */
+  minMargin?: number;
+  /** Limits as of the last full calibration, which refreshes only loosen within bounds. */
+  baseline?: { minConfidence: number; minMargin: number; maxDistance?: number };
+};
+
+/** Open-set thresholds stored alongside a trained classifier. */
+export type RejectionThresholds = {
+  featureMeans: number[];
+  featureStd: number[];
+  labels: Record<string, LabelThresholds>;
+  /** Minimum confidence gap between the top two labels. */
+  minMargin: number;
+  /** Held-out predictions the thresholds were fitted on. */
+  calibrationSamples: number;
+  /** Confirmed recordings folded in by `refreshRejection` since the last full calibration. */
+  refreshedSamples?: number;
+};
+
+/** `background`: the model recognized everyday motion rather than a gesture. */
+export type RejectionReason = 'background' | 'confidence' | 'margin' | 'distance';
+
+export type OpenSetPrediction = PredictionResult & {
+  /** False when the gesture should be treated as unknown. */
+  accepted: boolean;
+  reason?: RejectionReason;
+  margin: number;
+  distance?: number;
+};
+
+export type RejectionCalibrationOptions = {
+  /** Cross-validation folds used to collect held-out predictions. */
+  folds?: number;
+  seed?: number;
+  /**
+   * Share of correct held-out predictions the three tests together may reject.
+   * Each test gets a third of it, since any one of them rejects on its own.
+   */
+  quantile?: number;
+  /** Multiplier on the calibrated distance limit. */
+  distanceSlack?: number;
+};
+
+function quantile(values: number[], q: number) {
+  if (!values.length) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const pos = Math.min(sorted.length - 1, Math.max(0, q * (sorted.length - 1)));
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+}
+
+function centroidDistance(
+  scaling: Pick<RejectionThresholds, 'featureMeans' | 'featureStd'>,
+  centroid: number[],
+  values: number[]
+) {
+  if (!centroid.length) return 0;
+  let sum = 0;
+  centroid.forEach((c, idx) => {
+    const z = (values[idx] - scaling.featureMeans[idx]) / scaling.featureStd[idx];
+    sum += (z - c) ** 2;
+  });
+  return Math.sqrt(sum / centroid.length);
+}
+
+function labelCentroids(dataset: GestureDataset, featureMeans: number[], featureStd: number[]) {
+  const sums: Record<string, { total: number[]; count: number }> = {};
+  dataset.entries.forEach((entry) => {
+    if (!sums[entry.label]) {
+      sums[entry.label] = { total: new Array(featureMeans.length).fill(0), count: 0 };
+    }
+    const bucket = sums[entry.label];
+    entry.values.forEach((value, idx) => {
+      bucket.total[idx] += (value - featureMeans[idx]) / featureStd[idx];
+    });
+    bucket.count += 1;
+  });
+  const centroids: Record<string, number[]> = {};
+  Object.entries(sums).forEach(([label, { total, count }]) => {
+    centroids[label] = total.map((v) => v / count);
+  });
+  return centroids;
+}
+
+function margin(prediction: PredictionResult) {
+  const [top, second] = prediction.distribution;
+  return (top?.confidence ?? 0) - (second?.confidence ?? 0);
+}
+
+/** A prediction on a real recording from a model that never trained on it. */
+export type HeldOutPrediction = {
+  entry: GestureDatasetEntry;
+  prediction: PredictionResult;
+  /** What the predicting model was trained on; centroid distances are measured against it. */
+  train: GestureDataset;
+};
+
+/**
+ * Fits per-label confidence and centroid-distance limits plus a global top-two
+ * margin from cross-validated predictions on real (non-augmented) recordings.
+ * Labels with fewer than five correct held-out predictions keep the default
+ * confidence cut-off, and calibrated confidence and margin limits are capped.
+ */
+export function calibrateRejection(
+  dataset: GestureDataset,
+  fit: FitPredictor,
+  options: RejectionCalibrationOptions = {}
+): RejectionThresholds {
+  const real = dataset.entries.filter((entry) => !entry.augmentedFrom);
+  const counts: Record<string, number> = {};
+  real.forEach((entry) => {
+    counts[entry.label] = (counts[entry.label] ?? 0) + 1;
+  });
+  const folds = Math.min(options.folds ?? 5, ...Object.values(counts));
+  const heldOut: HeldOutPrediction[] = [];
+  if (folds >= 2) {
+    const random = createSeededRandom(options.seed ?? DEFAULT_EVALUATION_SEED);
+    const groups = stratifiedFolds(real, folds, random);
+    groups.forEach((test, foldIdx) => {
+      const trainIds = new Set(
+        groups.filter((_, idx) => idx !== foldIdx).flat().map((idx) => real[idx].id)
+      );
+      const train: GestureDataset = {
+        ...dataset,
+        entries: dataset.entries.filter((entry) =>
+          trainIds.has(entry.augmentedFrom ?? entry.id)
+        ),
+      };
+      const predict = fit(train);
+      test.forEach((idx) => {
+        heldOut.push({ entry: real[idx], prediction: predict(real[idx]), train });
+      });
+    });
+  }
+  return rejectionFromHeldOut(dataset, heldOut, options);
+}
+
+/**
+ * The threshold fit behind `calibrateRejection`, for recognizers that already
+ * collect held-out predictions while training (the ensemble's weight tuning).
+ */
+export function rejectionFromHeldOut(
+  dataset: GestureDataset,
+  heldOut: HeldOutPrediction[],
+  options: RejectionCalibrationOptions = {}
+): RejectionThresholds {
+  const q = (options.quantile ?? 0.05) / 3;
+  const slack = options.distanceSlack ?? 1.25;
+  const real = dataset.entries.filter((entry) => !entry.augmentedFrom);
+  const { featureMeans, featureStd } = computeFeatureScaling(
+    real.map((entry) => entry.values),
+    dataset.featureNames.length
+  );
+
+  const confidences: Record<string, number[]> = {};
+  const distances: Record<string, number[]> = {};
+  const margins: number[] = [];
+  const trainCentroids = new Map<GestureDataset, Record<string, number[]>>();
+  heldOut.forEach(({ entry, prediction, train }) => {
+    const centroids =
+      trainCentroids.get(train) ?? labelCentroids(train, featureMeans, featureStd);
+    trainCentroids.set(train, centroids);
+    if (centroids[entry.label]) {
+      if (!distances[entry.label]) distances[entry.label] = [];
+      distances[entry.label].push(
+        centroidDistance({ featureMeans, featureStd }, centroids[entry.label], entry.values)
+      );
+    }
+    if (prediction.label !== entry.label || isBackgroundLabel(entry.label)) return;
+    if (!confidences[entry.label]) confidences[entry.label] = [];
+    confidences[entry.label].push(prediction.confidence);
+    margins.push(margin(prediction));
+  });
+
+  const fullCentroids = labelCentroids(dataset, featureMeans, featureStd);
+  const labels: Record<string, LabelThresholds> = {};
+  Object.entries(fullCentroids).forEach(([label, centroid]) => {
+    if (isBackgroundLabel(label)) return;
+    // Without held-out distances, fall back to the spread of the training data.
+    const held = distances[label]?.length
+      ? distances[label]
+      : real
+          .filter((entry) => entry.label === label)
+          .map((entry) => centroidDistance({ featureMeans, featureStd }, centroid, entry.values));
+    const minConfidence =
+      (confidences[label]?.length ?? 0) >= MIN_CALIBRATION_SAMPLES
+        ? Math.min(MAX_MIN_CONFIDENCE, quantile(confidences[label], q))
+        : DEFAULT_MIN_CONFIDENCE;
+    labels[label] = {
+      centroid,
+      minConfidence,
+      // A single recording sits on its own centroid and says nothing about spread.
+      ...(held.length >= 2 ? { maxDistance: quantile(held, 1 - q) * slack } : {}),
+    };
+  });
+
+  return {
+    featureMeans,
+    featureStd,
+    labels,
+    minMargin:
+      margins.length >= MIN_CALIBRATION_SAMPLES ? Math.min(MAX_MIN_MARGIN, quantile(margins, q)) : 0,
+    calibrationSamples: heldOut.length,
+  };
+}
+
+/**
+ * Cheap follow-up to an incremental model update, without the cross-validated
+ * refits of `calibrateRejection`. Centroids are recomputed on the stored
+ * scaling, and labels new since calibration get the default confidence
+ * cut-off and no distance limit until the next full calibration. Every
+ * `confirmed` recording the updated model now predicts correctly loosens its
+ * own label's limits just enough to be accepted, but never further than a
+ * small step past the last full calibration, so weak confirmations cannot
+ * erode rejection over time. The margin it lowers is that label's, not the
+ * global one.
+ */
+export function refreshRejection(
+  thresholds: RejectionThresholds,
+  dataset: GestureDataset,
+  confirmed: { label: string; values: number[]; prediction: PredictionResult }[] = []
+): RejectionThresholds {
+  const centroids = labelCentroids(dataset, thresholds.featureMeans, thresholds.featureStd);
+  const labels: Record<string, LabelThresholds> = {};
+  Object.entries(centroids).forEach(([label, centroid]) => {
+    if (isBackgroundLabel(label)) return;
+    const previous = thresholds.labels[label] ?? { centroid, minConfidence: DEFAULT_MIN_CONFIDENCE };
+    labels[label] = {
+      ...previous,
+      centroid,
+      baseline: previous.baseline ?? {
+        minConfidence: previous.minConfidence,
+        minMargin: previous.minMargin ?? thresholds.minMargin,
+        ...(previous.maxDistance !== undefined ? { maxDistance: previous.maxDistance } : {}),
+      },
+    };
+  });
+  let refreshedSamples = thresholds.refreshedSamples ?? 0;
+  confirmed.forEach(({ label, values, prediction }) => {
+    const limits = labels[label];
+    if (!limits?.baseline || prediction.label !== label) return;
+    const { baseline } = limits;
+    refreshedSamples += 1;
+    limits.minConfidence = Math.max(
+      baseline.minConfidence - MAX_REFRESH_LOOSENING,
+      Math.min(limits.minConfidence, prediction.confidence)
+    );
+    limits.minMargin = Math.max(
+      baseline.minMargin - MAX_REFRESH_LOOSENING,
+      Math.min(limits.minMargin ?? baseline.minMargin, margin(prediction))
+    );
+    if (limits.maxDistance !== undefined && baseline.maxDistance !== undefined) {
+      limits.maxDistance = Math.min(
+        baseline.maxDistance * MAX_REFRESH_DISTANCE_FACTOR,
+        Math.max(limits.maxDistance, centroidDistance(thresholds, limits.centroid, values))
+      );
+    }
+  });
+  return { ...thresholds, labels, refreshedSamples };
+}
+
+/**
+ * Accepts the top label only when it clears its confidence threshold, beats
+ * the runner-up by the calibrated margin, and lies close enough to the label's
+ * training data. Without thresholds only the default confidence cut-off applies.
+ */
+export function applyRejection(
+  prediction: PredictionResult,
+  values: number[],
+  thresholds?: RejectionThresholds
+): OpenSetPrediction {
+  const gap = margin(prediction);
+  if (isBackgroundLabel(prediction.label)) {
+    return { ...prediction, accepted: false, reason: 'background', margin: gap };
+  }
+  const limits = thresholds?.labels[prediction.label];
+  if (!thresholds || !limits) {
+    const accepted = prediction.confidence >= DEFAULT_MIN_CONFIDENCE;
+    return { ...prediction, accepted, margin: gap, ...(accepted ? {} : { reason: 'confidence' }) };
+  }
+  const distance = centroidDistance(thresholds, limits.centroid, values);
+  let reason: RejectionReason | undefined;
+  if (prediction.confidence < limits.minConfidence) reason = 'confidence';
+  else if (gap < (limits.minMargin ?? thresholds.minMargin)) reason = 'margin';
+  else if (limits.maxDistance !== undefined && distance > limits.maxDistance) reason = 'distance';
+  return { ...prediction, accepted: !reason, margin: gap, distance, ...(reason ? { reason } : {}) };
+}
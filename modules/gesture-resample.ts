@@ -0,0 +1,89 @@
+import type { SensorSample } from './gesture-ml';
+
+/** Matches the 40 ms sensor update interval used by the recorders. */
+export const DEFAULT_SAMPLE_RATE_HZ = 25;
+
+export type ResampleMethod = 'linear' | 'cubic';
+
+export const RESAMPLE_METHODS: ResampleMethod[] = ['linear', 'cubic'];
+
+export type ResampleOptions = {
+  rateHz: number;
+  /** Defaults to linear interpolation. */
+  method?: ResampleMethod;
+};
+
+const CHANNELS = ['ax', 'ay', 'az', 'gx', 'gy', 'gz'] as const;
+
+type Channel = (typeof CHANNELS)[number];
+
+/** Finite-difference slope at `idx`, one-sided at the ends. */
+function slopeAt(samples: SensorSample[], idx: number, key: Channel) {
+  const prev = samples[Math.max(0, idx - 1)];
+  const next = samples[Math.min(samples.length - 1, idx + 1)];
+  const dt = next.t - prev.t;
+  return dt > 0 ? (next[key] - prev[key]) / dt : 0;
+}
+
+/** Cubic Hermite segment between samples `j` and `j + 1` at fraction `w`. */
+function hermite(samples: SensorSample[], j: number, w: number, key: Channel) {
+  const a = samples[j];
+  const b = samples[j + 1];
+  const span = b.t - a.t;
+  const w2 = w * w;
+  const w3 = w2 * w;
+  return (
+    (2 * w3 - 3 * w2 + 1) * a[key] +
+    (w3 - 2 * w2 + w) * span * slopeAt(samples, j, key) +
+    (-2 * w3 + 3 * w2) * b[key] +
+    (w3 - w2) * span * slopeAt(samples, j + 1, key)
+  );
+}
+
+/** Average rate a recording was captured at, from its first and last timestamps. */
+export function measuredRateHz(samples: SensorSample[]) {
+  if (samples.length < 2) return undefined;
+  const spanMs = samples[samples.length - 1].t - samples[0].t;
+  return spanMs > 0 ? ((samples.length - 1) * 1000) / spanMs : undefined;
+}
+
+/**
+ * Interpolates accel and gyro onto a fixed grid starting at the first
+ * timestamp, so recordings with jittery or device-specific rates line up.
+ * Duplicate or out-of-order timestamps are dropped first.
+ */
+export function resampleSamples(
+  samples: SensorSample[],
+  options: ResampleOptions
+): SensorSample[] {
+  if (!(options.rateHz > 0)) {
+    throw new Error('Resample rate must be positive');
+  }
+  const ordered: SensorSample[] = [];
+  samples.forEach((s) => {
+    if (!ordered.length || s.t > ordered[ordered.length - 1].t) ordered.push(s);
+  });
+  if (ordered.length < 2) return ordered;
+  const method = options.method ?? 'linear';
+  const step = 1000 / options.rateHz;
+  const start = ordered[0].t;
+  const end = ordered[ordered.length - 1].t;
+  const out: SensorSample[] = [];
+  let j = 0;
+  for (let i = 0; start + i * step <= end; i++) {
+    const t = start + i * step;
+    while (j < ordered.length - 2 && ordered[j + 1].t < t) j++;
+    const a = ordered[j];
+    const b = ordered[j + 1];
+    const w = Math.min(1, Math.max(0, (t - a.t) / (b.t - a.t)));
+    const sample = { t } as SensorSample;
+    CHANNELS.forEach((key) => {
+      sample[key] =
+        method === 'cubic'
+          ? hermite(ordered, j, w, key)
+          : a[key] + (b[key] - a[key]) * w;
+    });
+    out.push(sample);
+  }
+  return out;
+}
@@ -0,0 +1,157 @@
+/** Frequency bands (Hz) summarized as shares of total spectral energy. */
+export const SPECTRAL_BANDS = [
+  { name: 'band_0_2hz', low: 0, high: 2 },
+  { name: 'band_2_5hz', low: 2, high: 5 },
+  { name: 'band_5plus_hz', low: 5, high: Infinity },
+] as const;
+
+export type SpectralStats = {
+  dominantFrequency: number;
+  spectralCentroid: number;
+  spectralEntropy: number;
+  bandEnergies: number[];
+};
+
+function nextPowerOfTwo(n: number) {
+  let size = 1;
+  while (size < n) size <<= 1;
+  return size;
+}
+
+/** In-place iterative radix-2 FFT; both arrays must have a power-of-two length. */
+export function fft(re: number[], im: number[]): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    const wRe = Math.cos(angle);
+    const wIm = Math.sin(angle);
+    for (let start = 0; start < n; start += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = start + k;
+        const b = a + len / 2;
+        const tRe = re[b] * curRe - im[b] * curIm;
+        const tIm = re[b] * curIm + im[b] * curRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+}
+
+/**
+ * One-sided power spectrum of a mean-removed, zero-padded signal. Index k maps
+ * to `k * sampleRateHz / size` Hz; the DC bin is dropped.
+ */
+export function powerSpectrum(values: number[], sampleRateHz: number) {
+  const size = nextPowerOfTwo(Math.max(2, values.length));
+  const mean = values.length
+    ? values.reduce((a, b) => a + b, 0) / values.length
+    : 0;
+  const re = new Array(size).fill(0);
+  const im = new Array(size).fill(0);
+  values.forEach((v, idx) => {
+    re[idx] = v - mean;
+  });
+  fft(re, im);
+  const frequencies: number[] = [];
+  const power: number[] = [];
+  for (let k = 1; k <= size / 2; k++) {
+    frequencies.push((k * sampleRateHz) / size);
+    power.push(re[k] * re[k] + im[k] * im[k]);
+  }
+  return { frequencies, power };
+}
+
+export function spectralStats(
+  values: number[],
+  sampleRateHz: number
+): SpectralStats {
+  const { frequencies, power } = powerSpectrum(values, sampleRateHz);
+  const total = power.reduce((a, b) => a + b, 0);
+  if (values.length < 2 || total === 0) {
+    return {
+      dominantFrequency: 0,
+      spectralCentroid: 0,
+      spectralEntropy: 0,
+      bandEnergies: SPECTRAL_BANDS.map(() => 0),
+    };
+  }
+  let peak = 0;
+  let centroid = 0;
+  let entropy = 0;
+  power.forEach((p, idx) => {
+    if (p > power[peak]) peak = idx;
+    centroid += frequencies[idx] * p;
+    const share = p / total;
+    if (share > 0) entropy -= share * Math.log(share);
+  });
+  const bandEnergies = SPECTRAL_BANDS.map((band) => {
+    let energy = 0;
+    frequencies.forEach((f, idx) => {
+      if (f >= band.low && f < band.high) energy += power[idx];
+    });
+    return energy / total;
+  });
+  return {
+    dominantFrequency: frequencies[peak],
+    spectralCentroid: centroid / total,
+    // Normalized by the maximum entropy so it stays in [0, 1] for any length.
+    spectralEntropy: power.length > 1 ? entropy / Math.log(power.length) : 0,
+    bandEnergies,
+  };
+}
+
+/** Share of consecutive samples that cross the signal's mean. */
+export function zeroCrossingRate(values: number[]) {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((a, b) => a + b, 0) / values.length;
+  let crossings = 0;
+  for (let i = 1; i < values.length; i++) {
+    const prev = values[i - 1] - mean;
+    const curr = values[i] - mean;
+    if ((prev < 0 && curr >= 0) || (prev >= 0 && curr < 0)) crossings += 1;
+  }
+  return crossings / (values.length - 1);
+}
+
+/** Pearson correlation; 0 when either signal is constant. */
+export function correlation(a: number[], b: number[]) {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return 0;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= n;
+  meanB /= n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  if (varA === 0 || varB === 0) return 0;
+  return cov / Math.sqrt(varA * varB);
+}
@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import process from 'node:process';
+
+import { DEFAULT_EVALUATION_SEED, type GestureDataset } from '../modules/gesture-ml';
+import {
+  CLASSIFIER_KINDS,
+  deserializeClassifier,
+  isClassifierKind,
+  trainClassifier,
+  type GestureClassifier,
+} from '../modules/gesture-classifiers';
+import { rebuildDatasetFeatures } from '../modules/gesture-features';
+import { analyzeFeatures } from '../modules/gesture-importance';
+
+type FlagMap = Record<string, string>;
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const flags: FlagMap = {};
+  argv.forEach((arg) => {
+    if (arg.startsWith('--')) {
+      const [rawKey, rawValue] = arg.replace(/^--/, '').split('=');
+      flags[rawKey] = rawValue ?? 'true';
+    } else {
+      positional.push(arg);
+    }
+  });
+  return { positional, flags };
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+const signedPct = (value: number) => `${value >= 0 ? '+' : ''}${pct(value)}`;
+
+function printUsage() {
+  console.log(
+    [
+      'Report which features a gesture model relies on.',
+      '',
+      'Usage:',
+      '  npm run analyze:ml -- <dataset.json> [--model=gesture_model.json] [--classifier=softmax] [--repeats=3] [--top=5] [--folds=5] [--seed=42] [--ablation=off]',
+      '',
+      'Without --model a classifier is trained on the dataset first.',
+      'Permutation importance: accuracy lost when one feature is shuffled across samples.',
+      'Block ablation: cross-validated accuracy with each feature block removed (retrains per block).',
+      'Softmax models also list the largest weights per label.',
+      'Features with near-zero variance are flagged; training silently gives constant ones a std of 1.',
+      `Classifiers: ${CLASSIFIER_KINDS.join(', ')}`,
+    ].join('\n')
+  );
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  if (!positional.length || flags.help) {
+    printUsage();
+    process.exit(flags.help ? 0 : 1);
+  }
+
+  const datasetPath = resolve(positional[0]);
+  const repeats = flags.repeats ? Number(flags.repeats) : 3;
+  const top = flags.top ? Number(flags.top) : 5;
+  const folds = flags.folds ? Number(flags.folds) : 5;
+  const seed = flags.seed ? Number(flags.seed) : DEFAULT_EVALUATION_SEED;
+  const ablation = flags.ablation !== 'off';
+
+  if (!Number.isInteger(repeats) || repeats < 1) {
+    throw new Error('repeats must be a positive integer');
+  }
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error('top must be a positive integer');
+  }
+  if (!Number.isInteger(folds) || folds < 2) {
+    throw new Error('folds must be an integer >= 2');
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error('seed must be an integer');
+  }
+
+  const raw = readFileSync(datasetPath, 'utf8');
+  let dataset = JSON.parse(raw) as GestureDataset;
+  if (!dataset.featureNames || !Array.isArray(dataset.entries)) {
+    throw new Error('Dataset JSON missing featureNames or entries.');
+  }
+
+  let classifier: GestureClassifier;
+  if (flags.model) {
+    classifier = deserializeClassifier(JSON.parse(readFileSync(resolve(flags.model), 'utf8')));
+    // Re-extract when the model was trained on another pipeline than the export.
+    const { pipelineId } = classifier.summary();
+    if (pipelineId && pipelineId !== dataset.pipelineId) {
+      const rebuiltResult = rebuildDatasetFeatures(dataset, pipelineId);
+      dataset = rebuiltResult.dataset;
+      console.log(
+        `Re-extracted features for ${rebuiltResult.rebuilt} samples with ${pipelineId} ` +
+          `(${rebuiltResult.dropped.length} dropped without raw data).`
+      );
+    }
+  } else {
+    const kind = flags.classifier ?? 'softmax';
+    if (!isClassifierKind(kind)) {
+      throw new Error(`classifier must be one of ${CLASSIFIER_KINDS.join(', ')}`);
+    }
+    console.log(`Training ${kind} on ${dataset.entries.length} samples...`);
+    classifier = trainClassifier(kind, dataset, { seed });
+  }
+
+  console.log(
+    `Analyzing ${classifier.kind} on ${dataset.entries.length} samples ` +
+      `(repeats=${repeats}, seed=${seed}${ablation ? `, ablation folds=${folds}` : ''})...`
+  );
+  const report = analyzeFeatures(classifier, dataset, {
+    repeats,
+    seed,
+    folds,
+    ablation,
+    topPerLabel: top,
+  });
+
+  console.log('');
+  console.log(`Accuracy on the dataset: ${pct(report.baselineAccuracy)}`);
+  if (report.permutation.length) {
+    console.log('');
+    console.log(`Permutation importance (top ${top}):`);
+    report.permutation.slice(0, top).forEach(({ feature, importance }) => {
+      console.log(`  ${feature.padEnd(24)} ${signedPct(-importance)}`);
+    });
+    const unused = report.permutation.filter((f) => f.importance <= 0).length;
+    if (unused) {
+      console.log(`  ${unused} of ${report.permutation.length} features cost nothing when shuffled.`);
+    }
+  } else {
+    console.log('Permutation importance: not applicable, this classifier reads raw samples.');
+  }
+
+  if (report.ablation) {
+    console.log('');
+    console.log(`Block ablation (cross-validated, all features: ${pct(report.ablation.baselineAccuracy)}):`);
+    report.ablation.blocks.forEach(({ block, featureCount, accuracy, delta }) => {
+      console.log(
+        `  without ${block.padEnd(14)} ${pct(accuracy).padStart(7)}  ${signedPct(delta)}  (${featureCount} features)`
+      );
+    });
+  }
+
+  if (report.topFeaturesByLabel) {
+    console.log('');
+    console.log('Largest softmax weights per label (z-scored inputs):');
+    Object.entries(report.topFeaturesByLabel).forEach(([label, features]) => {
+      console.log(
+        `  ${label}: ${features.map(({ feature, weight }) => `${feature} ${weight.toFixed(2)}`).join(' · ')}`
+      );
+    });
+  }
+
+  console.log('');
+  if (report.lowVariance.length) {
+    console.log(`Near-zero variance (${report.lowVariance.length}), no signal for any label:`);
+    report.lowVariance.forEach(({ feature, std }) => {
+      console.log(`  ${feature} (std ${std.toExponential(1)})`);
+    });
+  } else {
+    console.log('No near-zero variance features.');
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
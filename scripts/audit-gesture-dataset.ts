@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import process from 'node:process';
+
+import { DEFAULT_EVALUATION_SEED, type GestureDataset } from '../modules/gesture-ml';
+import { CLASSIFIER_KINDS, isClassifierKind } from '../modules/gesture-classifiers';
+import { AUDIT_DISTANCES, auditDataset, type AuditDistance } from '../modules/gesture-audit';
+
+type FlagMap = Record<string, string>;
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const flags: FlagMap = {};
+  argv.forEach((arg) => {
+    if (arg.startsWith('--')) {
+      const [rawKey, rawValue] = arg.replace(/^--/, '').split('=');
+      flags[rawKey] = rawValue ?? 'true';
+    } else {
+      positional.push(arg);
+    }
+  });
+  return { positional, flags };
+}
+
+function printUsage() {
+  console.log(
+    [
+      'List recordings that look botched or mislabeled, worst first.',
+      '',
+      'Usage:',
+      '  npm run audit:ml -- <dataset.json> [--classifier=knn] [--distance=feature] [--threshold=3.5] [--top=20] [--epochs=250] [--lr=0.08] [--seed=42]',
+      '',
+      'Leave-one-out: every recording is left out, a classifier is retrained on the rest and a wrong prediction is flagged.',
+      `Outliers: mean distance to the label's other recordings (--distance: ${AUDIT_DISTANCES.join(', ')}; dtw needs raw samples).`,
+      'Anomalies: duration and sample count far from the label median.',
+      '--threshold is the robust z-score (median/MAD) above which outliers and anomalies are flagged.',
+      '--epochs and --lr only matter for gradient-trained classifiers, which retrain once per recording.',
+      `Classifiers: ${CLASSIFIER_KINDS.join(', ')}`,
+    ].join('\n')
+  );
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  if (!positional.length || flags.help) {
+    printUsage();
+    process.exit(flags.help ? 0 : 1);
+  }
+
+  const datasetPath = resolve(positional[0]);
+  const kind = flags.classifier ?? 'knn';
+  const distance = flags.distance ?? 'feature';
+  const threshold = flags.threshold ? Number(flags.threshold) : 3.5;
+  const top = flags.top ? Number(flags.top) : 20;
+  const epochs = flags.epochs ? Number(flags.epochs) : 250;
+  const learningRate = flags.lr ? Number(flags.lr) : 0.08;
+  const seed = flags.seed ? Number(flags.seed) : DEFAULT_EVALUATION_SEED;
+
+  if (!isClassifierKind(kind)) {
+    throw new Error(`classifier must be one of ${CLASSIFIER_KINDS.join(', ')}`);
+  }
+  if (!(AUDIT_DISTANCES as string[]).includes(distance)) {
+    throw new Error(`distance must be one of ${AUDIT_DISTANCES.join(', ')}`);
+  }
+  if (!(threshold > 0)) {
+    throw new Error('threshold must be a positive number');
+  }
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error('top must be a positive integer');
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error('seed must be an integer');
+  }
+
+  const raw = readFileSync(datasetPath, 'utf8');
+  const dataset = JSON.parse(raw) as GestureDataset;
+  if (!dataset.featureNames || !Array.isArray(dataset.entries)) {
+    throw new Error('Dataset JSON missing featureNames or entries.');
+  }
+
+  console.log(`Auditing ${dataset.entries.length} samples (leave-one-out ${kind}, ${distance} outliers)...`);
+  const report = auditDataset(dataset, {
+    classifier: kind,
+    distance: distance as AuditDistance,
+    threshold,
+    epochs,
+    learningRate,
+    seed,
+  });
+
+  console.log('');
+  if (!report.findings.length) {
+    console.log(`No suspicious recordings among ${report.checked} checked.`);
+    return;
+  }
+  console.log(`${report.findings.length} of ${report.checked} recordings look suspicious:`);
+  report.findings.slice(0, top).forEach((finding, idx) => {
+    const suggestion = finding.suggestedLabel ? ` → maybe ${finding.suggestedLabel}` : '';
+    console.log(`${String(idx + 1).padStart(3)}. ${finding.id} [${finding.label}${suggestion}] score ${finding.score.toFixed(2)}`);
+    finding.reasons.forEach((reason) => {
+      console.log(`       ${reason.kind}: ${reason.detail}`);
+    });
+  });
+  if (report.findings.length > top) {
+    console.log(`... ${report.findings.length - top} more (raise --top to list them).`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -3,8 +3,22 @@ import { readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import process from 'node:process';
 
-import type { GestureDataset } from '../modules/gesture-ml';
-import { evaluateSoftmaxOnDataset } from '../modules/gesture-ml';
+import {
+  CLASS_WEIGHTINGS,
+  DEFAULT_EVALUATION_SEED,
+  EVALUATION_GROUPINGS,
+  type ClassWeighting,
+  type EvaluationGrouping,
+  type EvaluationResult,
+  type GestureDataset,
+} from '../modules/gesture-ml';
+import {
+  CLASSIFIER_KINDS,
+  evaluateClassifierOnDataset,
+  isClassifierKind,
+} from '../modules/gesture-classifiers';
+import { BALANCE_STRATEGIES, type BalanceStrategy } from '../modules/gesture-balance';
+import { FEATURE_PIPELINES, rebuildDatasetFeatures } from '../modules/gesture-features';
 
 type FlagMap = Record<string, string>;
 
@@ -22,14 +36,35 @@ function parseArgs(argv: string[]) {
   return { positional, flags };
 }
 
+const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+function printConfusionMatrix(result: EvaluationResult) {
+  const { labels, confusionMatrix } = result;
+  const width = Math.max(6, ...labels.map((label) => label.length)) + 2;
+  const cell = (text: string | number) => String(text).padStart(width);
+  console.log('Confusion matrix (rows = actual, columns = predicted):');
+  console.log(`${''.padEnd(width)}${labels.map(cell).join('')}`);
+  labels.forEach((label, row) => {
+    console.log(`${label.padEnd(width)}${confusionMatrix[row].map(cell).join('')}`);
+  });
+}
+
 function printUsage() {
   console.log(
     [
-      'Evaluate the softmax gesture model on a held-out test split.',
+      'Evaluate a gesture classifier on a stratified held-out split or with k-fold cross-validation.',
       '',
       'Usage:',
-      '  npm run eval:ml -- <dataset.json> [--testFraction=0.2] [--epochs=250] [--lr=0.08]',
+      '  npm run eval:ml -- <dataset.json> [--classifier=softmax] [--testFraction=0.2] [--folds=5] [--seed=42] [--epochs=250] [--lr=0.08] [--pipeline=full-v2] [--augment=3] [--smoothing=0.01] [--shrinkage=0.2] [--classWeights=balanced] [--balance=oversample] [--leaveOut=session]',
       '',
+      'Runs with the same --seed produce the same splits; --folds=1 keeps a single train/test split.',
+      `--leaveOut (${EVALUATION_GROUPINGS.join(', ')}) tests on each recording session or user in turn after training on the rest; it overrides --folds and --testFraction.`,
+      'Random splits put near-duplicates from one sitting on both sides, so leave-one-session-out is the more honest number.',
+      '--augment adds synthetic variants to each training fold only; test folds hold real recordings.',
+      `--classWeights (${CLASS_WEIGHTINGS.join(', ')}) weights the softmax, mlp and cnn loss per label; --balance (${BALANCE_STRATEGIES.join(', ')}) evens out each training fold.`,
+      '--smoothing (Naive Bayes) and --shrinkage (LDA) tune the closed-form classifiers; they ignore epochs and lr.',
+      `Classifiers: ${CLASSIFIER_KINDS.join(', ')}`,
+      `Pipelines (--pipeline re-extracts features from raw samples first): ${FEATURE_PIPELINES.map((p) => p.id).join(', ')}`,
       'The dataset JSON should be an exported gesture_ml_dataset.json from the ML tab.',
     ].join('\n')
   );
@@ -46,37 +81,132 @@ async function main() {
   const testFraction = flags.testFraction ? Number(flags.testFraction) : 0.2;
   const epochs = flags.epochs ? Number(flags.epochs) : 250;
   const learningRate = flags.lr ? Number(flags.lr) : 0.08;
+  const kind = flags.classifier ?? 'softmax';
+  const folds = flags.folds ? Number(flags.folds) : 1;
+  const seed = flags.seed ? Number(flags.seed) : DEFAULT_EVALUATION_SEED;
+  const augmentCopies = flags.augment === 'true' ? 3 : Number(flags.augment ?? 0);
+  const varianceSmoothing = flags.smoothing ? Number(flags.smoothing) : undefined;
+  const shrinkage = flags.shrinkage ? Number(flags.shrinkage) : undefined;
+  const classWeighting = flags.classWeights;
+  const balance = flags.balance;
+  const leaveOut = flags.leaveOut;
 
   if (!(testFraction > 0 && testFraction < 1)) {
     throw new Error('testFraction must be between 0 and 1 (e.g. 0.2)');
   }
+  if (!Number.isInteger(folds) || folds < 1) {
+    throw new Error('folds must be a positive integer');
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error('seed must be an integer');
+  }
+  if (!Number.isInteger(augmentCopies) || augmentCopies < 0) {
+    throw new Error('augment must be a positive integer');
+  }
+  if (varianceSmoothing !== undefined && !(varianceSmoothing > 0)) {
+    throw new Error('smoothing must be a positive number');
+  }
+  if (shrinkage !== undefined && !(shrinkage >= 0 && shrinkage <= 1)) {
+    throw new Error('shrinkage must be between 0 and 1');
+  }
+  if (classWeighting !== undefined && !(CLASS_WEIGHTINGS as string[]).includes(classWeighting)) {
+    throw new Error(`classWeights must be one of ${CLASS_WEIGHTINGS.join(', ')}`);
+  }
+  if (balance !== undefined && !(BALANCE_STRATEGIES as string[]).includes(balance)) {
+    throw new Error(`balance must be one of ${BALANCE_STRATEGIES.join(', ')}`);
+  }
+  if (leaveOut !== undefined && !(EVALUATION_GROUPINGS as string[]).includes(leaveOut)) {
+    throw new Error(`leaveOut must be one of ${EVALUATION_GROUPINGS.join(', ')}`);
+  }
+  if (!isClassifierKind(kind)) {
+    throw new Error(`classifier must be one of ${CLASSIFIER_KINDS.join(', ')}`);
+  }
 
   const raw = readFileSync(datasetPath, 'utf8');
-  const dataset = JSON.parse(raw) as GestureDataset;
+  let dataset = JSON.parse(raw) as GestureDataset;
   if (!dataset.featureNames || !Array.isArray(dataset.entries)) {
     throw new Error('Dataset JSON missing featureNames or entries.');
   }
+  if (flags.pipeline) {
+    const rebuiltResult = rebuildDatasetFeatures(dataset, flags.pipeline);
+    dataset = rebuiltResult.dataset;
+    console.log(
+      `Re-extracted features for ${rebuiltResult.rebuilt} samples with ${flags.pipeline} ` +
+        `(${rebuiltResult.dropped.length} dropped without raw data).`
+    );
+  }
 
   console.log(
-    `Evaluating on ${dataset.entries.length} samples ` +
-      `(testFraction=${testFraction}, epochs=${epochs}, lr=${learningRate})...`
+    `Evaluating ${kind} on ${dataset.entries.length} samples ` +
+      `(${leaveOut ? `leave-one-${leaveOut}-out` : folds >= 2 ? `folds=${folds}` : `testFraction=${testFraction}`}, ` +
+      `seed=${seed}, epochs=${epochs}, lr=${learningRate}` +
+      `${augmentCopies ? `, augment=${augmentCopies}` : ''}` +
+      `${classWeighting ? `, classWeights=${classWeighting}` : ''}` +
+      `${balance ? `, balance=${balance}` : ''})...`
   );
 
-  const { result } = evaluateSoftmaxOnDataset(dataset, {
+  const result = evaluateClassifierOnDataset(dataset, kind, {
     testFraction,
+    folds,
+    seed,
     epochs,
     learningRate,
+    varianceSmoothing,
+    shrinkage,
+    classWeighting: classWeighting as ClassWeighting | undefined,
+    augment: augmentCopies ? { copies: augmentCopies, seed } : undefined,
+    balance: balance ? { strategy: balance as BalanceStrategy, seed } : undefined,
+    leaveOneOut: leaveOut as EvaluationGrouping | undefined,
   });
 
   console.log('');
-  console.log(`Overall accuracy: ${(result.overallAccuracy * 100).toFixed(2)}%`);
-  console.log(`Total test samples: ${result.totalSamples}`);
+  console.log(`Overall accuracy: ${pct(result.overallAccuracy)}`);
+  console.log(`Balanced accuracy: ${pct(result.balancedAccuracy)} (mean per-label recall)`);
+  console.log(
+    `Gesture test samples: ${result.totalSamples}` +
+      `${result.background ? ` (+ ${result.background.samples} background)` : ''}`
+  );
+  if (result.background) {
+    const bg = result.background;
+    console.log(
+      `False activations: ${pct(bg.falseActivationRate)} ` +
+        `(${bg.falseActivations}/${bg.samples} background samples) · ${bg.missedGestures} gestures missed as background`
+    );
+  }
+  if (result.crossValidation) {
+    const cv = result.crossValidation;
+    console.log(
+      `Fold accuracy: ${pct(cv.meanAccuracy)} ± ${pct(cv.stdAccuracy)} ` +
+        `over ${cv.folds} folds`
+    );
+    if (cv.heldOut) {
+      cv.heldOut.forEach((group, idx) => {
+        console.log(`  ${group}: ${pct(cv.foldAccuracies[idx])}`);
+      });
+    } else {
+      console.log(
+        `  ${cv.foldAccuracies.map((acc, idx) => `#${idx + 1}: ${pct(acc)}`).join('  ')}`
+      );
+    }
+  }
   console.log('');
-  console.log('Per-label accuracy:');
+  console.log('Per-label metrics:');
   Object.entries(result.perLabel).forEach(([label, stats]) => {
-    const pct = (stats.accuracy * 100).toFixed(2);
-    console.log(`  ${label}: ${pct}% (${stats.correct}/${stats.total})`);
+    console.log(
+      `  ${label}: accuracy ${pct(stats.accuracy)} (${stats.correct}/${stats.total}) · ` +
+        `precision ${pct(stats.precision)} · recall ${pct(stats.recall)} · F1 ${pct(stats.f1)}`
+    );
   });
+  console.log('');
+  console.log(
+    `Macro avg: precision ${pct(result.macro.precision)} · recall ${pct(result.macro.recall)} · F1 ${pct(result.macro.f1)}`
+  );
+  console.log(
+    `Micro avg: precision ${pct(result.micro.precision)} · recall ${pct(result.micro.recall)} · F1 ${pct(result.micro.f1)}`
+  );
+  console.log(`Expected calibration error: ${pct(result.calibration.expectedCalibrationError)}`);
+  console.log('');
+  printConfusionMatrix(result);
 }
 
 main().catch((err) => {
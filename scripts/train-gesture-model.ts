@@ -3,7 +3,43 @@ import { readFileSync, writeFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import process from 'node:process';
 
-import { trainSoftmaxModel, type GestureDataset } from '../modules/gesture-ml';
+import {
+  CLASS_WEIGHTINGS,
+  type ClassWeighting,
+  type GestureDataset,
+} from '../modules/gesture-ml';
+import { FEATURE_PIPELINES, rebuildDatasetFeatures } from '../modules/gesture-features';
+import {
+  AUGMENTATION_KINDS,
+  DEFAULT_AUGMENTATIONS,
+  type AugmentationKind,
+  type AugmentOptions,
+} from '../modules/gesture-augment';
+import { BALANCE_STRATEGIES, type BalanceStrategy } from '../modules/gesture-balance';
+import { HMM_SCORINGS, type HmmScoring } from '../modules/gesture-hmm';
+import { MLP_ACTIVATIONS, type MlpActivation } from '../modules/gesture-mlp';
+import {
+  KNN_METRICS,
+  KNN_SCALINGS,
+  KNN_WEIGHTINGS,
+  type KnnMetric,
+  type KnnScaling,
+  type KnnWeighting,
+} from '../modules/gesture-knn';
+import {
+  LEARNING_RATE_SCHEDULES,
+  OPTIMIZER_KINDS,
+  type LearningRateSchedule,
+  type OptimizerKind,
+} from '../modules/gesture-optim';
+import {
+  CLASSIFIER_KINDS,
+  ENSEMBLE_MEMBERS,
+  isClassifierKind,
+  serializeClassifier,
+  trainClassifier,
+  type ClassifierTrainOptions,
+} from '../modules/gesture-classifiers';
 
 type FlagMap = Record<string, string>;
 
@@ -23,7 +59,186 @@ function parseArgs(argv: string[]) {
 
 function printUsage() {
   console.log(`Train the ML gesture model with Node.\n\n` +
-    `Usage:\n  npm run train:ml -- <dataset.json> [output.json] [--epochs=400] [--lr=0.05]\n`);
+    `Usage:\n  npm run train:ml -- <dataset.json> [output.json] [--classifier=softmax] [--epochs=400] [--lr=0.05] [--reextract] [--pipeline=full-v2]\n\n` +
+    `  --classifier  one of ${CLASSIFIER_KINDS.join(', ')}\n` +
+    `  --reextract   rebuild feature vectors from stored raw samples before training\n` +
+    `  --pipeline    rebuild features with this pipeline first: ${FEATURE_PIPELINES.map((p) => p.id).join(', ')}\n\n` +
+    `Optimizer flags (softmax, mlp and cnn):\n` +
+    `  --optimizer=sgd      one of ${OPTIMIZER_KINDS.join(', ')}\n` +
+    `  --momentum=0.9       momentum (Adam beta1)\n` +
+    `  --batch=16           mini-batch size (default: full batch)\n` +
+    `  --l2=0.001           L2 weight decay\n` +
+    `  --schedule=constant  one of ${LEARNING_RATE_SCHEDULES.join(', ')}\n` +
+    `  --decay=0.5          decay factor for step/exponential schedules\n` +
+    `  --step=100           epochs between step decays\n` +
+    `  --val=0.2            validation fraction for validation loss\n` +
+    `  --patience=30        early stopping patience in epochs (needs --val)\n` +
+    `  --seed=42            seed for the validation split, batch shuffling and init\n\n` +
+    `MLP flags:\n` +
+    `  --hidden=32,16       units per hidden layer\n` +
+    `  --activation=relu    one of ${MLP_ACTIVATIONS.join(', ')}\n` +
+    `  --dropout=0.2        dropout rate on hidden layers\n\n` +
+    `1D CNN flags (learns from raw samples; --dropout applies to its dense layer; --epochs defaults to 60):\n` +
+    `  --filters=8,16       filters per conv layer (each followed by max-pooling by 2)\n` +
+    `  --kernel=5           conv kernel size in frames\n` +
+    `  --window=64          frames each recording is stretched to\n` +
+    `  --dense=32           units in the dense layer before the output\n\n` +
+    `k-NN flags:\n` +
+    `  --k=5                neighbors to vote (default: chosen by leave-one-out accuracy)\n` +
+    `  --metric=euclidean   one of ${KNN_METRICS.join(', ')}\n` +
+    `  --scaling=zscore     one of ${KNN_SCALINGS.join(', ')}\n` +
+    `  --weighting=distance one of ${KNN_WEIGHTINGS.join(', ')}\n\n` +
+    `Naive Bayes / LDA flags (closed-form, epochs and lr are ignored):\n` +
+    `  --smoothing=0.01     Naive Bayes variance added per feature (z-scored units)\n` +
+    `  --shrinkage=0.2      LDA covariance shrinkage in [0, 1] (default: Ledoit-Wolf)\n\n` +
+    `Decision tree / random forest flags:\n` +
+    `  --trees=50           trees in the forest\n` +
+    `  --maxDepth=8         depth limit per tree\n` +
+    `  --minLeaf=1          minimum samples per leaf\n` +
+    `  --maxFeatures=7      features tried per split (default: √features for forests, all for a tree)\n` +
+    `  --maxNodes=255       node limit per tree\n\n` +
+    `HMM flags (needs raw samples):\n` +
+    `  --states=5           hidden states per label\n` +
+    `  --iterations=15      Baum-Welch iterations (stops early once converged)\n` +
+    `  --scoring=forward    one of ${HMM_SCORINGS.join(', ')}\n\n` +
+    `Augmentation (any classifier):\n` +
+    `  --augment=3          synthetic variants per recording (bare --augment means 3)\n` +
+    `  --augmentKinds=...   comma-separated subset of ${AUGMENTATION_KINDS.join(', ')}\n` +
+    `                       (default: ${DEFAULT_AUGMENTATIONS.join(', ')})\n\n` +
+    `Class imbalance (any classifier):\n` +
+    `  --classWeights=balanced  one of ${CLASS_WEIGHTINGS.join(', ')}; weights the loss of softmax, mlp and cnn\n` +
+    `  --balance=oversample     one of ${BALANCE_STRATEGIES.join(', ')}; evens out recordings per label\n\n` +
+    `Ensemble (--classifier=ensemble fuses ${ENSEMBLE_MEMBERS.join(', ')}):\n` +
+    `  --ensembleFolds=3    folds used to tune member weights and the fusion method\n\n` +
+    `Open-set rejection:\n` +
+    `  --rejectionFolds=5   folds used to calibrate unknown-gesture thresholds (the ensemble reuses its tuning folds)\n` +
+    `  --rejection=off      skip calibration (device falls back to a 55% confidence cut-off)\n`);
+}
+
+function numberFlag(flags: FlagMap, key: string, check: (value: number) => boolean, hint: string) {
+  if (flags[key] === undefined) return undefined;
+  const value = Number(flags[key]);
+  if (!Number.isFinite(value) || !check(value)) {
+    throw new Error(`${key} must be ${hint}`);
+  }
+  return value;
+}
+
+function augmentOptionsFromFlags(flags: FlagMap): AugmentOptions | undefined {
+  if (flags.augment === undefined) return undefined;
+  const copies = flags.augment === 'true' ? 3 : Number(flags.augment);
+  if (!Number.isInteger(copies) || copies < 1) {
+    throw new Error('augment must be a positive integer');
+  }
+  const kinds = flags.augmentKinds?.split(',');
+  const unknown = kinds?.find((kind) => !(AUGMENTATION_KINDS as string[]).includes(kind));
+  if (unknown) {
+    throw new Error(`augmentKinds must be a subset of ${AUGMENTATION_KINDS.join(', ')}`);
+  }
+  return {
+    copies,
+    kinds: kinds as AugmentationKind[] | undefined,
+    seed: numberFlag(flags, 'seed', Number.isInteger, 'an integer'),
+  };
+}
+
+function trainOptionsFromFlags(flags: FlagMap): ClassifierTrainOptions {
+  const optimizer = flags.optimizer;
+  if (optimizer !== undefined && !(OPTIMIZER_KINDS as string[]).includes(optimizer)) {
+    throw new Error(`optimizer must be one of ${OPTIMIZER_KINDS.join(', ')}`);
+  }
+  const schedule = flags.schedule;
+  if (schedule !== undefined && !(LEARNING_RATE_SCHEDULES as string[]).includes(schedule)) {
+    throw new Error(`schedule must be one of ${LEARNING_RATE_SCHEDULES.join(', ')}`);
+  }
+  const activation = flags.activation;
+  if (activation !== undefined && !(MLP_ACTIVATIONS as string[]).includes(activation)) {
+    throw new Error(`activation must be one of ${MLP_ACTIVATIONS.join(', ')}`);
+  }
+  const metric = flags.metric;
+  if (metric !== undefined && !(KNN_METRICS as string[]).includes(metric)) {
+    throw new Error(`metric must be one of ${KNN_METRICS.join(', ')}`);
+  }
+  const scaling = flags.scaling;
+  if (scaling !== undefined && !(KNN_SCALINGS as string[]).includes(scaling)) {
+    throw new Error(`scaling must be one of ${KNN_SCALINGS.join(', ')}`);
+  }
+  const weighting = flags.weighting;
+  if (weighting !== undefined && !(KNN_WEIGHTINGS as string[]).includes(weighting)) {
+    throw new Error(`weighting must be one of ${KNN_WEIGHTINGS.join(', ')}`);
+  }
+  const convFilters = flags.filters?.split(',').map(Number);
+  if (convFilters && convFilters.some((filters) => !Number.isInteger(filters) || filters <= 0)) {
+    throw new Error('filters must be a comma-separated list of positive integers (e.g. 8,16)');
+  }
+  const classWeighting = flags.classWeights;
+  if (classWeighting !== undefined && !(CLASS_WEIGHTINGS as string[]).includes(classWeighting)) {
+    throw new Error(`classWeights must be one of ${CLASS_WEIGHTINGS.join(', ')}`);
+  }
+  const balance = flags.balance;
+  if (balance !== undefined && !(BALANCE_STRATEGIES as string[]).includes(balance)) {
+    throw new Error(`balance must be one of ${BALANCE_STRATEGIES.join(', ')}`);
+  }
+  const scoring = flags.scoring;
+  if (scoring !== undefined && !(HMM_SCORINGS as string[]).includes(scoring)) {
+    throw new Error(`scoring must be one of ${HMM_SCORINGS.join(', ')}`);
+  }
+  const hiddenLayers = flags.hidden?.split(',').map(Number);
+  if (hiddenLayers && hiddenLayers.some((units) => !Number.isInteger(units) || units <= 0)) {
+    throw new Error('hidden must be a comma-separated list of positive integers (e.g. 32,16)');
+  }
+  return {
+    optimizer: optimizer as OptimizerKind | undefined,
+    momentum: numberFlag(flags, 'momentum', (v) => v >= 0 && v < 1, 'in [0, 1)'),
+    batchSize: numberFlag(flags, 'batch', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    l2: numberFlag(flags, 'l2', (v) => v >= 0, 'zero or positive'),
+    lrSchedule: schedule as LearningRateSchedule | undefined,
+    lrDecay: numberFlag(flags, 'decay', (v) => v > 0 && v <= 1, 'in (0, 1]'),
+    lrStepSize: numberFlag(flags, 'step', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    validationFraction: numberFlag(flags, 'val', (v) => v > 0 && v < 1, 'between 0 and 1'),
+    patience: numberFlag(flags, 'patience', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    seed: numberFlag(flags, 'seed', Number.isInteger, 'an integer'),
+    hiddenLayers,
+    activation: activation as MlpActivation | undefined,
+    dropout: numberFlag(flags, 'dropout', (v) => v >= 0 && v < 1, 'in [0, 1)'),
+    convFilters,
+    kernelSize: numberFlag(flags, 'kernel', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    windowLength: numberFlag(flags, 'window', (v) => Number.isInteger(v) && v > 1, 'an integer > 1'),
+    denseUnits: numberFlag(flags, 'dense', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    k: numberFlag(flags, 'k', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    distanceMetric: metric as KnnMetric | undefined,
+    featureScaling: scaling as KnnScaling | undefined,
+    neighborWeighting: weighting as KnnWeighting | undefined,
+    varianceSmoothing: numberFlag(flags, 'smoothing', (v) => v > 0, 'positive'),
+    shrinkage: numberFlag(flags, 'shrinkage', (v) => v >= 0 && v <= 1, 'in [0, 1]'),
+    treeCount: numberFlag(flags, 'trees', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    maxDepth: numberFlag(flags, 'maxDepth', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    minSamplesLeaf: numberFlag(flags, 'minLeaf', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    maxFeatures: numberFlag(flags, 'maxFeatures', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    maxNodes: numberFlag(flags, 'maxNodes', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    hmmStates: numberFlag(flags, 'states', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    hmmIterations: numberFlag(flags, 'iterations', (v) => Number.isInteger(v) && v > 0, 'a positive integer'),
+    hmmScoring: scoring as HmmScoring | undefined,
+    classWeighting: classWeighting as ClassWeighting | undefined,
+    augment: augmentOptionsFromFlags(flags),
+    balance: balance
+      ? {
+          strategy: balance as BalanceStrategy,
+          seed: numberFlag(flags, 'seed', Number.isInteger, 'an integer'),
+        }
+      : undefined,
+    ensemble: {
+      folds: numberFlag(flags, 'ensembleFolds', (v) => Number.isInteger(v) && v >= 2, 'an integer >= 2'),
+      seed: numberFlag(flags, 'seed', Number.isInteger, 'an integer'),
+    },
+    rejection:
+      flags.rejection === 'off'
+        ? undefined
+        : {
+            folds: numberFlag(flags, 'rejectionFolds', (v) => Number.isInteger(v) && v >= 2, 'an integer >= 2'),
+            seed: numberFlag(flags, 'seed', Number.isInteger, 'an integer'),
+          },
+  };
 }
 
 async function main() {
@@ -35,21 +250,73 @@ async function main() {
 
   const datasetPath = resolve(positional[0]);
   const outputPath = positional[1] ? resolve(positional[1]) : resolve('gesture_ml_model.json');
-  const epochs = flags.epochs ? Number(flags.epochs) : 400;
+  const kind = flags.classifier ?? 'softmax';
+  // The CNN keeps its own default (60): 400 epochs of convolutions would take far longer.
+  const epochs = flags.epochs ? Number(flags.epochs) : kind === 'cnn' ? undefined : 400;
   const learningRate = flags.lr ? Number(flags.lr) : 0.06;
+  const trainOptions = trainOptionsFromFlags(flags);
 
-  if (!Number.isFinite(epochs) || epochs <= 0) {
+  if (epochs !== undefined && (!Number.isFinite(epochs) || epochs <= 0)) {
     throw new Error('epochs must be a positive number');
   }
   if (!Number.isFinite(learningRate) || learningRate <= 0) {
     throw new Error('lr must be a positive number');
   }
+  if (!isClassifierKind(kind)) {
+    throw new Error(`classifier must be one of ${CLASSIFIER_KINDS.join(', ')}`);
+  }
 
   const raw = readFileSync(datasetPath, 'utf8');
-  const dataset = JSON.parse(raw) as GestureDataset;
-  console.log(`Training on ${dataset.entries.length} samples across ${dataset.featureNames.length} features...`);
-  const model = trainSoftmaxModel(dataset, { epochs, learningRate });
-  writeFileSync(outputPath, JSON.stringify(model, null, 2));
+  let dataset = JSON.parse(raw) as GestureDataset;
+  if (flags.reextract || flags.pipeline) {
+    const { dataset: rebuiltDataset, rebuilt, dropped } = rebuildDatasetFeatures(dataset, flags.pipeline);
+    console.log(
+      `Re-extracted features for ${rebuilt} samples with ${rebuiltDataset.pipelineId} ` +
+        `(${dropped.length} dropped without raw data).`
+    );
+    dataset = rebuiltDataset;
+  }
+  console.log(`Training ${kind} on ${dataset.entries.length} samples across ${dataset.featureNames.length} features...`);
+  if (trainOptions.augment) {
+    console.log(`Adding ${trainOptions.augment.copies} augmented copies per recording.`);
+  }
+  const classifier = trainClassifier(kind, dataset, { ...trainOptions, epochs, learningRate });
+  const summary = classifier.summary();
+  if (summary.finalLoss !== undefined) {
+    console.log(`Final training loss: ${summary.finalLoss.toFixed(4)}`);
+  }
+  if (summary.finalValidationLoss !== undefined) {
+    console.log(`Final validation loss: ${summary.finalValidationLoss.toFixed(4)}`);
+  }
+  if (summary.outOfBagAccuracy !== undefined) {
+    console.log(`Out-of-bag accuracy: ${(summary.outOfBagAccuracy * 100).toFixed(1)}%`);
+  }
+  if (summary.shrinkage !== undefined) {
+    console.log(`LDA covariance shrinkage: ${summary.shrinkage.toFixed(3)}`);
+  }
+  if (summary.neighbors) {
+    const { k, metric, scaling } = summary.neighbors;
+    console.log(`k-NN: k=${k}, ${metric} distance on ${scaling}-scaled features`);
+  }
+  if (summary.hmm) {
+    console.log(`HMM: ${summary.hmm.states} states per label, ${summary.hmm.scoring} scoring`);
+  }
+  if (summary.ensemble) {
+    const { members, method, weights, validationAccuracy } = summary.ensemble;
+    const tuned = validationAccuracy !== undefined
+      ? `held-out accuracy ${(validationAccuracy * 100).toFixed(1)}%`
+      : 'untuned, too few samples per label';
+    console.log(`Ensemble ${method} (${tuned}): ${members.map((m, idx) => `${m} ${weights[idx].toFixed(2)}`).join(', ')}`);
+  }
+  if (classifier.rejection) {
+    const { labels, minMargin, calibrationSamples } = classifier.rejection;
+    console.log(`Unknown-gesture thresholds (${calibrationSamples} held-out samples, margin >= ${minMargin.toFixed(3)}):`);
+    Object.entries(labels).forEach(([label, limits]) => {
+      const distance = limits.maxDistance !== undefined ? limits.maxDistance.toFixed(2) : 'n/a';
+      console.log(`  ${label}: confidence >= ${limits.minConfidence.toFixed(3)}, distance <= ${distance}`);
+    });
+  }
+  writeFileSync(outputPath, JSON.stringify(serializeClassifier(classifier), null, 2));
   console.log(`Model written to ${outputPath}`);
 }
 
@@ -0,0 +1,256 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import process from 'node:process';
+
+import {
+  createSeededRandom,
+  DEFAULT_EVALUATION_SEED,
+  type GestureDataset,
+} from '../modules/gesture-ml';
+import {
+  FEATURE_PIPELINES,
+  rebuildDatasetFeatures,
+  resolvePipelineId,
+} from '../modules/gesture-features';
+import {
+  CLASSIFIER_KINDS,
+  evaluateClassifierOnDataset,
+  isClassifierKind,
+  serializeClassifier,
+  trainClassifier,
+} from '../modules/gesture-classifiers';
+
+type FlagMap = Record<string, string>;
+
+type Trial = {
+  pipelineId: string;
+  learningRate: number;
+  epochs: number;
+  l2: number;
+};
+
+type TrialResult = Trial & {
+  meanAccuracy: number;
+  stdAccuracy: number;
+  macroF1: number;
+  seconds: number;
+};
+
+const DEFAULT_LEARNING_RATES = [0.01, 0.03, 0.06, 0.1];
+const DEFAULT_EPOCHS = [150, 300, 500];
+const DEFAULT_L2 = [0, 0.0001, 0.001, 0.01];
+
+function parseArgs(argv: string[]) {
+  const positional: string[] = [];
+  const flags: FlagMap = {};
+  argv.forEach((arg) => {
+    if (arg.startsWith('--')) {
+      const [rawKey, rawValue] = arg.replace(/^--/, '').split('=');
+      flags[rawKey] = rawValue ?? 'true';
+    } else {
+      positional.push(arg);
+    }
+  });
+  return { positional, flags };
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(2)}%`;
+
+function printUsage() {
+  console.log(
+    [
+      'Search learning rate, epochs, L2 and feature pipeline by cross-validated accuracy.',
+      '',
+      'Usage:',
+      '  npm run tune:ml -- <dataset.json> [--classifier=softmax] [--search=grid|random] [--trials=20] [--folds=5] [--seed=42] [--out=best_model.json]',
+      '',
+      'Search space (comma-separated lists override the defaults):',
+      `  --lr=${DEFAULT_LEARNING_RATES.join(',')}`,
+      `  --epochs=${DEFAULT_EPOCHS.join(',')}`,
+      `  --l2=${DEFAULT_L2.join(',')}`,
+      `  --pipelines=<ids>   feature pipelines to try: ${FEATURE_PIPELINES.map((p) => p.id).join(', ')}`,
+      '                      (default: the dataset\'s own; others need stored raw samples)',
+      '',
+      '--search=random samples --trials combinations instead of the full grid.',
+      '--out retrains the best combination on the whole dataset and writes it like train:ml.',
+      '--top=10 limits the ranked table.',
+      `Classifiers: ${CLASSIFIER_KINDS.join(', ')}`,
+    ].join('\n')
+  );
+}
+
+function numberList(flags: FlagMap, key: string, fallback: number[], check: (v: number) => boolean) {
+  if (flags[key] === undefined) return fallback;
+  const values = flags[key].split(',').map(Number);
+  if (!values.length || values.some((v) => !Number.isFinite(v) || !check(v))) {
+    throw new Error(`${key} must be a comma-separated list of valid numbers`);
+  }
+  return values;
+}
+
+function buildTrials(
+  space: { pipelineIds: string[]; learningRates: number[]; epochs: number[]; l2: number[] },
+  search: string,
+  trials: number,
+  seed: number
+): Trial[] {
+  const grid: Trial[] = [];
+  space.pipelineIds.forEach((pipelineId) =>
+    space.learningRates.forEach((learningRate) =>
+      space.epochs.forEach((epochs) =>
+        space.l2.forEach((l2) => grid.push({ pipelineId, learningRate, epochs, l2 }))
+      )
+    )
+  );
+  if (search === 'grid' || trials >= grid.length) return grid;
+  // Random search: a seeded sample of the grid without repeats.
+  const random = createSeededRandom(seed);
+  for (let i = grid.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [grid[i], grid[j]] = [grid[j], grid[i]];
+  }
+  return grid.slice(0, trials);
+}
+
+function printTable(results: TrialResult[], top: number) {
+  const header = ['#', 'pipeline', 'lr', 'epochs', 'l2', 'cv acc', '± std', 'macro F1', 'time'];
+  const rows = results.slice(0, top).map((r, idx) => [
+    String(idx + 1),
+    r.pipelineId,
+    String(r.learningRate),
+    String(r.epochs),
+    String(r.l2),
+    pct(r.meanAccuracy),
+    pct(r.stdAccuracy),
+    pct(r.macroF1),
+    `${r.seconds.toFixed(1)}s`,
+  ]);
+  const widths = header.map((h, col) => Math.max(h.length, ...rows.map((row) => row[col].length)));
+  const line = (cells: string[]) => cells.map((c, col) => c.padEnd(widths[col])).join('  ');
+  console.log(line(header));
+  console.log(widths.map((w) => '-'.repeat(w)).join('  '));
+  rows.forEach((row) => console.log(line(row)));
+}
+
+async function main() {
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  if (!positional.length || flags.help) {
+    printUsage();
+    process.exit(flags.help ? 0 : 1);
+  }
+
+  const datasetPath = resolve(positional[0]);
+  const kind = flags.classifier ?? 'softmax';
+  const search = flags.search ?? 'grid';
+  const trials = flags.trials ? Number(flags.trials) : 20;
+  const folds = flags.folds ? Number(flags.folds) : 5;
+  const seed = flags.seed ? Number(flags.seed) : DEFAULT_EVALUATION_SEED;
+  const top = flags.top ? Number(flags.top) : 10;
+
+  if (!isClassifierKind(kind)) {
+    throw new Error(`classifier must be one of ${CLASSIFIER_KINDS.join(', ')}`);
+  }
+  if (search !== 'grid' && search !== 'random') {
+    throw new Error('search must be grid or random');
+  }
+  if (!Number.isInteger(trials) || trials < 1) {
+    throw new Error('trials must be a positive integer');
+  }
+  if (!Number.isInteger(folds) || folds < 2) {
+    throw new Error('folds must be an integer >= 2');
+  }
+  if (!Number.isInteger(seed)) {
+    throw new Error('seed must be an integer');
+  }
+  if (!Number.isInteger(top) || top < 1) {
+    throw new Error('top must be a positive integer');
+  }
+
+  const raw = readFileSync(datasetPath, 'utf8');
+  const dataset = JSON.parse(raw) as GestureDataset;
+  if (!dataset.featureNames || !Array.isArray(dataset.entries)) {
+    throw new Error('Dataset JSON missing featureNames or entries.');
+  }
+
+  const ownPipelineId = resolvePipelineId(dataset.featureNames, dataset.pipelineId);
+  const space = {
+    pipelineIds: flags.pipelines ? flags.pipelines.split(',') : [ownPipelineId],
+    learningRates: numberList(flags, 'lr', DEFAULT_LEARNING_RATES, (v) => v > 0),
+    epochs: numberList(flags, 'epochs', DEFAULT_EPOCHS, (v) => Number.isInteger(v) && v > 0),
+    l2: numberList(flags, 'l2', DEFAULT_L2, (v) => v >= 0),
+  };
+
+  // Re-extract once per pipeline rather than once per trial.
+  const datasets = new Map<string, GestureDataset>();
+  space.pipelineIds.forEach((pipelineId) => {
+    if (pipelineId === ownPipelineId) {
+      datasets.set(pipelineId, { ...dataset, pipelineId });
+      return;
+    }
+    const { dataset: rebuilt, dropped } = rebuildDatasetFeatures(dataset, pipelineId);
+    if (dropped.length) {
+      console.log(`${pipelineId}: dropped ${dropped.length} entries without raw samples.`);
+    }
+    datasets.set(pipelineId, rebuilt);
+  });
+
+  const plan = buildTrials(space, search, trials, seed);
+  console.log(
+    `Tuning ${kind} on ${dataset.entries.length} samples: ${plan.length} ${search} trials, ` +
+      `${folds}-fold CV, seed=${seed}...`
+  );
+
+  const results: TrialResult[] = [];
+  plan.forEach((trial, idx) => {
+    const started = Date.now();
+    const result = evaluateClassifierOnDataset(datasets.get(trial.pipelineId)!, kind, {
+      folds,
+      seed,
+      epochs: trial.epochs,
+      learningRate: trial.learningRate,
+      l2: trial.l2,
+    });
+    const cv = result.crossValidation;
+    results.push({
+      ...trial,
+      meanAccuracy: cv?.meanAccuracy ?? result.overallAccuracy,
+      stdAccuracy: cv?.stdAccuracy ?? 0,
+      macroF1: result.macro.f1,
+      seconds: (Date.now() - started) / 1000,
+    });
+    process.stdout.write(`\r  ${idx + 1}/${plan.length} trials`);
+  });
+  process.stdout.write('\n\n');
+
+  // Best mean accuracy first; ties go to higher macro F1, then steadier folds.
+  results.sort(
+    (a, b) =>
+      b.meanAccuracy - a.meanAccuracy || b.macroF1 - a.macroF1 || a.stdAccuracy - b.stdAccuracy
+  );
+  printTable(results, top);
+
+  const best = results[0];
+  console.log('');
+  console.log(
+    `Best: --pipeline=${best.pipelineId} --lr=${best.learningRate} --epochs=${best.epochs} --l2=${best.l2}`
+  );
+
+  if (flags.out) {
+    const outputPath = resolve(flags.out);
+    const classifier = trainClassifier(kind, datasets.get(best.pipelineId)!, {
+      epochs: best.epochs,
+      learningRate: best.learningRate,
+      l2: best.l2,
+      seed,
+      rejection: { seed },
+    });
+    writeFileSync(outputPath, JSON.stringify(serializeClassifier(classifier), null, 2));
+    console.log(`Best model written to ${outputPath}`);
+  }
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});